@@ -0,0 +1,185 @@
+import { randomUUID } from "node:crypto";
+import { isBatchWrite, type BatchOperation } from "./batch.js";
+import type { DryRunResult } from "./dryRun.js";
+import { ValidationError } from "./errors.js";
+import type { ToolName } from "./toolSchemas.js";
+
+/**
+ * Human Approval Gate
+ *
+ * Holds destructive and public tool calls until a person (or host callback)
+ * approves them. A gated call returns an action token and a dry-run preview;
+ * fb_approve_action executes it and fb_reject_action discards it.
+ */
+
+/** true/false, or a predicate over the raw tool arguments */
+export type ApprovalRule = boolean | ((args: Record<string, unknown>) => boolean);
+
+export type ApprovalRules = Partial<Record<ToolName, ApprovalRule>>;
+
+export interface PendingAction {
+  action_token: string;
+  tool: ToolName;
+  page_id: string;
+  args: Record<string, unknown>;
+  /** Graph requests the action will send */
+  preview: DryRunResult;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface PendingApprovalResult {
+  status: "pending_approval";
+  action_token: string;
+  tool: ToolName;
+  preview: DryRunResult;
+  expires_at: string;
+  message: string;
+}
+
+export interface RejectedActionResult {
+  status: "rejected";
+  action_token: string;
+  tool: ToolName;
+  reason?: string;
+}
+
+export interface ApprovalPolicy {
+  /** Which write tools need approval (merged over defaultApprovalRules) */
+  tools?: ApprovalRules;
+  /** Per-Page overrides, keyed by Page ID */
+  pages?: Record<string, ApprovalRules>;
+  /** How long a pending action can be approved (default: 15 minutes) */
+  ttlMs?: number;
+  /**
+   * Decide without a round trip through the model: return true to run the
+   * action, false to reject it, or undefined to leave it pending.
+   */
+  onApprovalRequired?: (action: PendingAction) => boolean | undefined | Promise<boolean | undefined>;
+}
+
+// Runs on raw arguments, so a malformed operation is treated as a write
+const isWriteBatch = (args: Record<string, unknown>) =>
+  Array.isArray(args.operations)
+  && args.operations.some((operation: BatchOperation) => typeof operation.relative_url !== "string" || isBatchWrite(operation));
+
+/**
+ * Deletes, publishing, DMs and batches that write.
+ */
+export const defaultApprovalRules: ApprovalRules = {
+  fb_create_post: true,
+  fb_post_photo: true,
+  fb_post_video: true,
+  fb_post_reel: true,
+  fb_update_post: true,
+  fb_delete_post: true,
+  fb_undo: true,
+  fb_publish_now: true,
+  fb_cancel_scheduled_post: true,
+  fb_reply_comment: true,
+  fb_delete_comment: true,
+  fb_moderate_comment: (args) => args.action === "private_reply",
+  fb_send_message: true,
+  fb_batch: isWriteBatch,
+};
+
+interface StoredAction extends PendingAction {
+  run: () => Promise<unknown>;
+}
+
+export class ApprovalGate {
+  private readonly tools: ApprovalRules;
+  private readonly pages: Record<string, ApprovalRules>;
+  private readonly ttlMs: number;
+  private readonly onApprovalRequired: ApprovalPolicy["onApprovalRequired"];
+  private readonly pending = new Map<string, StoredAction>();
+
+  constructor(policy: ApprovalPolicy = {}) {
+    this.tools = { ...defaultApprovalRules, ...policy.tools };
+    this.pages = policy.pages ?? {};
+    this.ttlMs = policy.ttlMs ?? 15 * 60 * 1000;
+    this.onApprovalRequired = policy.onApprovalRequired;
+  }
+
+  requiresApproval(tool: ToolName, pageId: string, args: Record<string, unknown>): boolean {
+    const rule = this.pages[pageId]?.[tool] ?? this.tools[tool] ?? false;
+    return typeof rule === "function" ? rule(args) : rule;
+  }
+
+  /**
+   * Hold an action for approval. If the host callback decides right away the
+   * action is run or rejected immediately.
+   * @param run - Executes the action once approved
+   */
+  async submit(
+    action: Pick<PendingAction, "tool" | "page_id" | "args" | "preview">,
+    run: () => Promise<unknown>,
+  ): Promise<unknown> {
+    this.prune();
+    const now = Date.now();
+    const stored: StoredAction = {
+      ...action,
+      action_token: randomUUID(),
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + this.ttlMs).toISOString(),
+      run,
+    };
+    this.pending.set(stored.action_token, stored);
+
+    const decision = await this.onApprovalRequired?.(toPendingAction(stored));
+    if (decision === true) return this.approve(stored.action_token);
+    if (decision === false) return this.reject(stored.action_token, "Rejected by approval callback");
+
+    const result: PendingApprovalResult = {
+      status: "pending_approval",
+      action_token: stored.action_token,
+      tool: stored.tool,
+      preview: stored.preview,
+      expires_at: stored.expires_at,
+      message: `${stored.tool} needs approval. Show the preview to the user, then call fb_approve_action or fb_reject_action with this action_token.`,
+    };
+    return result;
+  }
+
+  /**
+   * Run a pending action. Each token can be used once.
+   * @throws ValidationError if the token is unknown or expired
+   */
+  async approve(actionToken: string): Promise<unknown> {
+    const action = this.take(actionToken);
+    return action.run();
+  }
+
+  reject(actionToken: string, reason?: string): RejectedActionResult {
+    const action = this.take(actionToken);
+    return { status: "rejected", action_token: action.action_token, tool: action.tool, reason };
+  }
+
+  /**
+   * Actions still waiting for a decision.
+   */
+  list(): PendingAction[] {
+    this.prune();
+    return [...this.pending.values()].map(toPendingAction);
+  }
+
+  private take(actionToken: string): StoredAction {
+    this.prune();
+    const action = this.pending.get(actionToken);
+    if (!action) {
+      throw new ValidationError(`No pending action for token ${actionToken}`, {},
+        "The action was already handled or has expired. Call the original tool again to get a new action_token.");
+    }
+    this.pending.delete(actionToken);
+    return action;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, action] of this.pending) {
+      if (Date.parse(action.expires_at) <= now) this.pending.delete(token);
+    }
+  }
+}
+
+const toPendingAction = ({ run: _run, ...action }: StoredAction): PendingAction => action;
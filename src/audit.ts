@@ -0,0 +1,169 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { BatchResult } from "./batch.js";
+import type { GraphRequestPreview } from "./dryRun.js";
+import { toFacebookError, type ToolErrorResult } from "./errors.js";
+import type { ToolName } from "./toolSchemas.js";
+
+/**
+ * Audit Log
+ *
+ * Records every write performed through the tools: validated arguments, the
+ * Graph requests sent, ids from the response and the outcome. Entries go to
+ * an AuditSink (JSONL file or memory) and can be queried with fb_get_audit_log.
+ */
+
+export interface AuditCaller {
+  /** Who asked for the action (user, agent or API key name) */
+  identity?: string;
+  session?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  tool: ToolName;
+  page_id: string;
+  args: Record<string, unknown>;
+  requests: GraphRequestPreview[];
+  /** Ids of objects created or touched, taken from the response */
+  response_ids: string[];
+  outcome: "success" | "failure";
+  error?: ToolErrorResult["error"];
+  caller?: AuditCaller;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  page_id?: string;
+  outcome?: AuditEntry["outcome"];
+  since?: Date;
+  /** Newest entries first (default: 50) */
+  limit?: number;
+}
+
+export interface AuditSink {
+  append(entry: AuditEntry): Promise<void>;
+  /** Matching entries, newest first */
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+const matches = (entry: AuditEntry, query: AuditQuery) =>
+  (!query.tool || entry.tool === query.tool)
+  && (!query.page_id || entry.page_id === query.page_id)
+  && (!query.outcome || entry.outcome === query.outcome)
+  && (!query.since || Date.parse(entry.timestamp) >= query.since.getTime());
+
+const newestFirst = (entries: AuditEntry[], query: AuditQuery) =>
+  entries.filter((entry) => matches(entry, query)).reverse().slice(0, query.limit ?? 50);
+
+export class MemoryAuditSink implements AuditSink {
+  private readonly entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry) {
+    this.entries.push(entry);
+  }
+
+  async query(query: AuditQuery) {
+    return newestFirst(this.entries, query);
+  }
+}
+
+/**
+ * One JSON entry per line, appended as actions complete.
+ */
+export class JsonlAuditSink implements AuditSink {
+  constructor(private readonly filePath = join(homedir(), ".meta-mcp", "facebook-audit.jsonl")) {}
+
+  async append(entry: AuditEntry) {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+
+  async query(query: AuditQuery) {
+    let contents = "";
+    try {
+      contents = await readFile(this.filePath, "utf8");
+    } catch {
+      return [];
+    }
+    const entries = contents.split("\n").flatMap((line) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        // Skip a line cut short by a crash mid-write
+        return [];
+      }
+    });
+    return newestFirst(entries, query);
+  }
+}
+
+const isBatchResult = (response: object): response is BatchResult =>
+  Array.isArray((response as Partial<BatchResult>).results) && typeof (response as Partial<BatchResult>).requests === "number";
+
+/**
+ * Ids found at the top level of a response or one level into arrays
+ * (e.g. photo_ids), and in the body of each fb_batch item.
+ */
+const collectResponseIds = (response: unknown, depth = 0): string[] => {
+  if (Array.isArray(response)) {
+    return depth > 0 ? [] : response.flatMap((item) => collectResponseIds(item, depth + 1));
+  }
+  if (!response || typeof response !== "object") return [];
+  if (isBatchResult(response)) return response.results.flatMap((item) => collectResponseIds(item.body));
+
+  return Object.entries(response).flatMap(([key, value]) => {
+    if (typeof value === "string" && (key === "id" || key.endsWith("_id"))) return [value];
+    if (Array.isArray(value) && key.endsWith("_ids")) return value.filter((id): id is string => typeof id === "string");
+    return [];
+  });
+};
+
+export interface AuditLogOptions {
+  /** Where entries are written (default: JsonlAuditSink) */
+  sink?: AuditSink;
+  /** Identity and session of the caller, looked up for each entry */
+  caller?: AuditCaller | (() => AuditCaller | undefined);
+}
+
+export class AuditLog {
+  private readonly sink: AuditSink;
+  private readonly caller: AuditLogOptions["caller"];
+
+  constructor(options: AuditLogOptions = {}) {
+    this.sink = options.sink ?? new JsonlAuditSink();
+    this.caller = options.caller;
+  }
+
+  /**
+   * Append an entry for a completed action. Sink failures are logged, not thrown.
+   */
+  async record(
+    entry: Pick<AuditEntry, "tool" | "page_id" | "args" | "requests">,
+    outcome: { result: unknown } | { error: unknown },
+  ): Promise<void> {
+    const caller = typeof this.caller === "function" ? this.caller() : this.caller;
+    try {
+      await this.sink.append({
+        id: randomUUID(),
+        timestamp: new Date().toISOString(),
+        ...entry,
+        ...("error" in outcome
+          ? { response_ids: [], outcome: "failure", error: toFacebookError(outcome.error).toJSON() }
+          : { response_ids: collectResponseIds(outcome.result), outcome: "success" }),
+        ...(caller ? { caller } : {}),
+      });
+    } catch (error) {
+      // The action already happened; failing the tool call now would invite a duplicate retry
+      console.error(`[meta-mcp] Could not write audit entry for ${entry.tool}:`, error);
+    }
+  }
+
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    return this.sink.query(query);
+  }
+}
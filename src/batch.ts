@@ -0,0 +1,314 @@
+import type { GraphApiClient } from "@meta-mcp/core";
+import { fromGraphError, ValidationError, type GraphErrorBody, type ToolErrorResult } from "./errors.js";
+
+/**
+ * Graph Batch Requests
+ *
+ * Splits operation lists into batches Graph accepts (at most 50 operations,
+ * with every operation in the same batch as the operations it references),
+ * parses each item's response, and resends only the reads that failed with a
+ * transient error or got no answer (writes too with retry_writes). A GET whose relative_url
+ * carries a `method=` override counts as a write.
+ */
+
+/** Most operations Graph accepts in one batch request */
+export const MAX_BATCH_SIZE = 50;
+
+export interface BatchOperation {
+  method: "GET" | "POST" | "DELETE" | "PATCH";
+  relative_url: string;
+  body?: Record<string, string> | undefined;
+  /** Lets later operations reference this one's result */
+  name?: string | undefined;
+  /** Run only after the named operation succeeded */
+  depends_on?: string | undefined;
+  /** Graph leaves the body out of successful responses (default: false) */
+  omit_response_on_success?: boolean | undefined;
+}
+
+export interface BatchItemResult<T = unknown> {
+  /** Position of the operation in the list passed in */
+  index: number;
+  name?: string;
+  /** HTTP status of the item, null when Graph did not run it */
+  status: number | null;
+  headers?: Record<string, string>;
+  /** Parsed JSON body of a successful item */
+  body?: T;
+  error?: ToolErrorResult["error"];
+  /** Succeeded, but the body was omitted (omit_response_on_success) */
+  omitted?: boolean;
+  /** Why the item was not run, e.g. an operation it depends on failed */
+  skipped?: string;
+  /** Times the item was sent */
+  attempts: number;
+}
+
+export interface BatchResult<T = unknown> {
+  results: BatchItemResult<T>[];
+  /** Items that ended with an error or were skipped */
+  failed: number;
+  /** Batch requests sent to Graph, including retries */
+  requests: number;
+}
+
+export interface BatchOptions {
+  include_headers?: boolean;
+  /** Times failed transient items are resent (default: 2) */
+  max_retries?: number;
+  /** Delay before the first resend, doubled for each further one (default: 1000) */
+  retry_delay_ms?: number;
+  /**
+   * Also resend writes (see isBatchWrite) that failed with a transient error.
+   * Graph may have applied them anyway, so a resend can duplicate a post or
+   * message (default: false).
+   */
+  retry_writes?: boolean;
+}
+
+interface RawBatchItem {
+  code: number;
+  headers?: { name: string; value: string }[];
+  body?: string;
+}
+
+const REFERENCE_PATTERN = /\{result=([^:}]+):\$\.?([^}]*)\}/g;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Whether an operation can change data: anything but GET, and a GET whose
+ * relative_url overrides the method with a `method=` query parameter, which
+ * Graph honours.
+ */
+export const isBatchWrite = (operation: Pick<BatchOperation, "method" | "relative_url">): boolean => {
+  if (operation.method !== "GET") return true;
+  const query = operation.relative_url.split("?")[1];
+  return query !== undefined && [...new URLSearchParams(query).keys()].some((key) => key.toLowerCase() === "method");
+};
+
+/**
+ * Names an operation depends on, through depends_on or JSONPath references
+ * (`{result=name:$.id}`) in its URL or body.
+ */
+export const batchDependencies = (operation: BatchOperation): string[] => {
+  const text = `${operation.relative_url} ${Object.values(operation.body ?? {}).join(" ")}`;
+  const names = [...text.matchAll(REFERENCE_PATTERN)].map((match) => match[1]!);
+  return [...new Set([...(operation.depends_on ? [operation.depends_on] : []), ...names])];
+};
+
+/**
+ * Group operations into batches of at most `maxSize`, keeping every
+ * operation in the same batch as the ones it depends on. Order is preserved
+ * within each batch.
+ * @returns Indexes into `operations`, one array per batch
+ * @throws ValidationError for duplicate or unknown names, forward references,
+ * or a dependency chain longer than `maxSize`
+ */
+export const planBatches = (operations: BatchOperation[], maxSize = MAX_BATCH_SIZE): number[][] => {
+  const defined = new Map<string, number>();
+  // Union-find over operations linked by a dependency
+  const parent = operations.map((_, index) => index);
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index]!)));
+
+  operations.forEach((operation, index) => {
+    for (const name of batchDependencies(operation)) {
+      const dependency = defined.get(name);
+      if (dependency === undefined) {
+        throw new ValidationError(`Batch operation ${index} references "${name}", which no earlier operation defines`, {},
+          "Give the referenced operation that name and place it before the operations that use it.");
+      }
+      parent[root(index)] = root(dependency);
+    }
+    if (operation.name) {
+      if (defined.has(operation.name)) {
+        throw new ValidationError(`Batch operation name "${operation.name}" is used twice`, {}, "Give each named operation a unique name.");
+      }
+      defined.set(operation.name, index);
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  operations.forEach((_, index) => {
+    const group = groups.get(root(index));
+    if (group) group.push(index);
+    else groups.set(root(index), [index]);
+  });
+
+  const batches: number[][] = [];
+  let current: number[] = [];
+  for (const group of groups.values()) {
+    if (group.length > maxSize) {
+      throw new ValidationError(`${group.length} batch operations depend on each other, more than the ${maxSize} Graph runs in one batch`, {},
+        "Split the chain into independent groups, or run the later steps in a separate call.");
+    }
+    if (current.length + group.length > maxSize) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(...group);
+  }
+  if (current.length) batches.push(current);
+  return batches.map((batch) => batch.sort((a, b) => a - b));
+};
+
+/**
+ * Substitute JSONPath references to results we already hold. Supports
+ * `$.field`, `$.list[0].field` and `$.data.*.id` (comma-joined).
+ */
+export const resolveBatchReferences = (text: string, results: ReadonlyMap<string, unknown>): string =>
+  text.replace(REFERENCE_PATTERN, (match, name: string, path: string) => {
+    if (!results.has(name)) return match;
+    const select = (node: unknown, keys: string[]): unknown[] => {
+      if (!keys.length) return [node];
+      const [key, ...rest] = keys;
+      if (key === "*") return Array.isArray(node) ? node.flatMap((item) => select(item, rest)) : [];
+      return node && typeof node === "object" ? select((node as Record<string, unknown>)[key!], rest) : [];
+    };
+    const keys = path.replace(/\[(\w+|\*)\]/g, ".$1").split(".").filter(Boolean);
+    return select(results.get(name), keys).filter((value) => value !== undefined).join(",");
+  });
+
+const toPayload = (operation: BatchOperation) => ({
+  method: operation.method,
+  relative_url: operation.relative_url,
+  body: operation.body ? new URLSearchParams(operation.body).toString() : undefined,
+  name: operation.name,
+  depends_on: operation.depends_on,
+  // Bodies of named results are kept so failed dependents can be resent on their own
+  omit_response_on_success: operation.omit_response_on_success ?? false,
+});
+
+const parseBody = (body: string | undefined): unknown => {
+  if (body === undefined) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+const parseItem = (raw: RawBatchItem, result: BatchItemResult): void => {
+  const body = parseBody(raw.body);
+  result.status = raw.code;
+  result.headers = raw.headers ? Object.fromEntries(raw.headers.map((header) => [header.name, header.value])) : undefined;
+  const graphError = body && typeof body === "object" ? (body as { error?: GraphErrorBody }).error : undefined;
+  if (raw.code >= 400 || graphError) {
+    result.error = fromGraphError(graphError ?? { message: `Batch item failed with status ${raw.code}` }, raw.code).toJSON();
+    result.body = undefined;
+  } else {
+    result.error = undefined;
+    result.body = body;
+  }
+  result.omitted = undefined;
+  result.skipped = undefined;
+};
+
+const compact = <T>(result: BatchItemResult<T>): BatchItemResult<T> =>
+  Object.fromEntries(Object.entries(result).filter(([, value]) => value !== undefined)) as unknown as BatchItemResult<T>;
+
+/**
+ * Run operations through Graph's batch endpoint, chunked, parsed per item,
+ * with transient failures resent.
+ * @param client - Client the batch requests are sent with
+ */
+export const executeBatch = async <T = unknown>(
+  client: GraphApiClient,
+  operations: BatchOperation[],
+  options: BatchOptions = {},
+): Promise<BatchResult<T>> => {
+  const maxRetries = options.max_retries ?? 2;
+  const retryDelayMs = options.retry_delay_ms ?? 1000;
+  const results: BatchItemResult[] = operations.map((operation, index) => ({
+    index,
+    name: operation.name,
+    status: null,
+    attempts: 0,
+  }));
+  const indexOf = new Map(operations.flatMap((operation, index) => (operation.name ? [[operation.name, index] as const] : [])));
+  // Bodies of named operations that succeeded, for resolving references on resend
+  const named = new Map<string, unknown>();
+  let requests = 0;
+
+  // Validates names and references up front, before anything is sent
+  planBatches(operations);
+
+  let pending = operations.map((_, index) => index);
+  for (let attempt = 0; pending.length; attempt++) {
+    if (attempt > 0) await sleep(retryDelayMs * 2 ** (attempt - 1));
+    const sending = new Set(pending);
+    // Items Graph answered with null although nothing they depend on failed
+    const unanswered = new Set<number>();
+
+    // Dependencies outside this round already succeeded: inline their results
+    const prepared = pending.map((index) => {
+      const operation = operations[index]!;
+      if (attempt === 0) return operation;
+      const external = batchDependencies(operation).filter((name) => !sending.has(indexOf.get(name)!));
+      return {
+        ...operation,
+        relative_url: resolveBatchReferences(operation.relative_url, named),
+        body: operation.body && Object.fromEntries(Object.entries(operation.body).map(([key, value]) => [key, resolveBatchReferences(value, named)])),
+        depends_on: operation.depends_on && external.includes(operation.depends_on) ? undefined : operation.depends_on,
+      };
+    });
+
+    for (const batch of planBatches(prepared)) {
+      const indexes = batch.map((position) => pending[position]!);
+      requests++;
+      const response = await client.request<unknown>({
+        method: "POST",
+        endpoint: "",
+        params: {
+          batch: JSON.stringify(batch.map((position) => toPayload(prepared[position]!))),
+          include_headers: options.include_headers ?? false,
+        },
+      });
+      // Dry runs answer with a placeholder object rather than a list
+      const items = Array.isArray(response) ? (response as (RawBatchItem | null)[]) : [];
+
+      indexes.forEach((index, position) => {
+        const result = results[index]!;
+        const operation = operations[index]!;
+        result.attempts++;
+        const item = items[position];
+        if (item) {
+          parseItem(item, result);
+        } else {
+          // Graph answers null for skipped operations, for operations it did not
+          // get to, and for omitted bodies when omit_response_on_success was set
+          const failed = batchDependencies(operation).find((name) => {
+            const dependency = results[indexOf.get(name)!]!;
+            return dependency.error || dependency.skipped;
+          });
+          if (!failed && Array.isArray(response) && !operation.omit_response_on_success) unanswered.add(index);
+          Object.assign(result, failed || !Array.isArray(response) || !operation.omit_response_on_success
+            ? { status: null, body: undefined, error: undefined, omitted: undefined, skipped: failed ? `Depends on "${failed}", which failed` : "No response from Graph" }
+            : { status: 200, body: undefined, error: undefined, omitted: true, skipped: undefined });
+        }
+        if (operation.name && result.status !== null && !result.error) named.set(operation.name, result.body);
+      });
+    }
+
+    if (attempt >= maxRetries) break;
+    // Resend transient failures and unanswered items, and the operations skipped because of them
+    const retry = new Set<number>();
+    for (const index of pending) {
+      const result = results[index]!;
+      const operation = operations[index]!;
+      const dependencies = batchDependencies(operation).map((name) => indexOf.get(name)!);
+      const resendable = dependencies.every((dependency) => retry.has(dependency) || (named.has(operations[dependency]!.name!) && !results[dependency]!.omitted));
+      const transient = (result.error?.type === "transient" || unanswered.has(index)) && (!isBatchWrite(operation) || options.retry_writes);
+      if ((transient || (result.skipped && dependencies.some((dependency) => retry.has(dependency)))) && resendable) {
+        retry.add(index);
+      }
+    }
+    pending = [...retry];
+  }
+
+  return {
+    results: results.map((result) => compact(result as BatchItemResult<T>)),
+    failed: results.filter((result) => result.error || result.skipped).length,
+    requests,
+  };
+};
@@ -0,0 +1,95 @@
+import { graphConfig, GraphApiClient } from "@meta-mcp/core";
+
+/**
+ * Dry Run and Request Recording
+ *
+ * RecordingGraphClient sends every request and keeps a copy of the writes.
+ * DryRunGraphClient records write requests instead of sending them. Reads
+ * still go to Graph so validation against real objects keeps working; reads
+ * of objects that only exist in the dry run are answered locally.
+ */
+
+type GraphRequestOptions = Parameters<GraphApiClient["request"]>[0];
+
+/** A request that would have been sent */
+export interface GraphRequestPreview {
+  method: GraphRequestOptions["method"];
+  /** Graph path, or the absolute URL of a binary upload */
+  endpoint: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface DryRunResult {
+  dry_run: true;
+  /** Requests in the order they would be sent */
+  requests: GraphRequestPreview[];
+}
+
+const PLACEHOLDER_PREFIX = "dry_run_";
+
+/**
+ * Stands in for Graph responses so multi-step flows (uploads, Reels) can run
+ * to the end without side effects.
+ */
+const placeholderResponse = (id: string) => ({
+  id,
+  success: true,
+  post_id: id,
+  video_id: id,
+  upload_session_id: id,
+  upload_url: `https://rupload.facebook.com/video-upload/${id}`,
+  // Equal offsets tell a chunked upload there is nothing left to transfer
+  start_offset: "0",
+  end_offset: "0",
+  status: { video_status: "ready" },
+  data: [],
+});
+
+const dropUndefined = (params: Record<string, unknown> | undefined) =>
+  params && Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+
+export class RecordingGraphClient extends GraphApiClient {
+  readonly requests: GraphRequestPreview[] = [];
+  protected readonly inner: GraphApiClient;
+
+  /**
+   * @param inner - Client that actually talks to Graph
+   */
+  constructor(inner: GraphApiClient) {
+    super({ ...graphConfig, accessToken: "" });
+    this.inner = inner;
+  }
+
+  override async request<T = Record<string, unknown>>(options: GraphRequestOptions): Promise<T> {
+    if (options.method !== "GET") this.record(options);
+    return this.inner.request<T>(options);
+  }
+
+  /**
+   * Record a request that bypasses GraphApiClient (binary uploads).
+   */
+  record(request: GraphRequestPreview): void {
+    this.requests.push({
+      method: request.method,
+      endpoint: request.endpoint,
+      ...(request.params ? { params: dropUndefined(request.params) } : {}),
+      ...(request.body !== undefined ? { body: request.body } : {}),
+    });
+  }
+}
+
+export class DryRunGraphClient extends RecordingGraphClient {
+  override async request<T = Record<string, unknown>>(options: GraphRequestOptions): Promise<T> {
+    const touchesPlaceholder = options.endpoint.includes(PLACEHOLDER_PREFIX);
+    if (options.method === "GET" && !touchesPlaceholder) {
+      return this.inner.request<T>(options);
+    }
+    if (options.method !== "GET") this.record(options);
+    return placeholderResponse(`${PLACEHOLDER_PREFIX}${this.requests.length}`) as T;
+  }
+
+  result(): DryRunResult {
+    return { dry_run: true, requests: this.requests };
+  }
+}
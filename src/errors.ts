@@ -0,0 +1,234 @@
+/**
+ * Typed Graph API Errors
+ *
+ * Maps Graph error payloads (`code`, `error_subcode`, `fbtrace_id`) onto a
+ * small hierarchy with a retryable flag and a suggested fix, and turns them
+ * into model-readable tool results.
+ */
+
+export type FacebookErrorKind =
+  | "auth"
+  | "token_expired"
+  | "permission"
+  | "rate_limited"
+  | "invalid_parameter"
+  | "transient"
+  | "validation"
+  | "unknown";
+
+/** Shape of the `error` object in Graph API responses */
+export interface GraphErrorBody {
+  message?: string;
+  type?: string;
+  code?: number;
+  error_subcode?: number;
+  fbtrace_id?: string;
+  is_transient?: boolean;
+  error_user_msg?: string;
+}
+
+/**
+ * Error codes Meta uses for application, user, page and business use case throttling.
+ */
+export const THROTTLE_ERROR_CODES = new Set([4, 17, 32, 613, 80001, 80002, 80004, 80005, 80006, 80008, 80009, 80014]);
+
+const AUTH_ERROR_CODES = new Set([102, 190]);
+// Subcodes of 190 meaning the token expired rather than being malformed or revoked
+const EXPIRED_TOKEN_SUBCODES = new Set([463, 467]);
+const TRANSIENT_ERROR_CODES = new Set([1, 2]);
+
+export class FacebookApiError extends Error {
+  readonly kind: FacebookErrorKind = "unknown";
+  readonly retryable: boolean = false;
+  readonly code: number | undefined;
+  readonly subcode: number | undefined;
+  readonly fbtraceId: string | undefined;
+  readonly suggestedFix: string;
+
+  constructor(message: string, body: GraphErrorBody = {}, suggestedFix = "Check the request and try again.") {
+    super(message);
+    this.name = new.target.name;
+    this.code = body.code;
+    this.subcode = body.error_subcode;
+    this.fbtraceId = body.fbtrace_id;
+    this.suggestedFix = suggestedFix;
+  }
+
+  /**
+   * Model-readable representation returned by tool handlers.
+   */
+  toJSON(): ToolErrorResult["error"] {
+    return {
+      type: this.kind,
+      message: this.message,
+      code: this.code,
+      subcode: this.subcode,
+      fbtrace_id: this.fbtraceId,
+      retryable: this.retryable,
+      suggested_fix: this.suggestedFix,
+    };
+  }
+}
+
+export class AuthError extends FacebookApiError {
+  override readonly kind: FacebookErrorKind = "auth";
+}
+
+export class TokenExpiredError extends AuthError {
+  override readonly kind: FacebookErrorKind = "token_expired";
+}
+
+export class PermissionError extends FacebookApiError {
+  override readonly kind = "permission";
+  /** Permission named in the error message, if any (e.g. pages_manage_posts) */
+  readonly permission: string | undefined;
+
+  constructor(message: string, body: GraphErrorBody, suggestedFix: string, permission?: string) {
+    super(message, body, suggestedFix);
+    this.permission = permission;
+  }
+}
+
+export class RateLimitError extends FacebookApiError {
+  override readonly kind = "rate_limited";
+  override readonly retryable = true;
+}
+
+export class InvalidParameterError extends FacebookApiError {
+  override readonly kind = "invalid_parameter";
+}
+
+export class TransientError extends FacebookApiError {
+  override readonly kind = "transient";
+  override readonly retryable = true;
+}
+
+/** Tool arguments rejected before any Graph call was made */
+export class ValidationError extends FacebookApiError {
+  override readonly kind = "validation";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Classification
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PERMISSION_PATTERN = /\b(pages_[a-z_]+|read_insights|business_management|public_profile|instagram_[a-z_]+)\b/;
+
+/**
+ * Build the typed error for a Graph `error` body.
+ * @param body - The `error` object from a Graph response
+ * @param httpStatus - HTTP status, used to spot server-side failures
+ */
+export const fromGraphError = (body: GraphErrorBody, httpStatus?: number): FacebookApiError => {
+  const message = body.error_user_msg ?? body.message ?? "Unknown Graph API error";
+  const code = body.code;
+  const permission = PERMISSION_PATTERN.exec(body.message ?? "")?.[1];
+
+  if ((code !== undefined && THROTTLE_ERROR_CODES.has(code)) || httpStatus === 429) {
+    return new RateLimitError(message, body,
+      "Rate limit reached. Wait before retrying and reduce request volume; fb_get_rate_limit_status shows current usage.");
+  }
+  if (code !== undefined && AUTH_ERROR_CODES.has(code)) {
+    return body.error_subcode !== undefined && EXPIRED_TOKEN_SUBCODES.has(body.error_subcode)
+      ? new TokenExpiredError(message, body, "The access token has expired. Generate a new long-lived token and update the configuration.")
+      : new AuthError(message, body, "The access token is invalid or was revoked. Generate a new token for a user with a role on the Page.");
+  }
+  if (code === 10 || code === 3 || (code !== undefined && code >= 200 && code <= 299)) {
+    return new PermissionError(message, body, permission
+      ? `Grant the ${permission} permission to the app and regenerate the token.`
+      : "The token lacks a required permission or Page role. Check the granted scopes and the user's Page tasks.", permission);
+  }
+  if (code === 100) {
+    // Code 100 is also what Meta returns when a User token is used where a Page token is required
+    if (/page access token/i.test(body.message ?? "") || permission) {
+      return new PermissionError(message, body, permission
+        ? `This call needs a Page access token with ${permission}. Use the Page token from me/accounts (see fb_list_pages).`
+        : "This call needs a Page access token. Use the Page token from me/accounts (see fb_list_pages).", permission);
+    }
+    return new InvalidParameterError(message, body, "A parameter is invalid or the object does not exist. Check IDs and field names.");
+  }
+  if (body.is_transient || (code !== undefined && TRANSIENT_ERROR_CODES.has(code)) || (httpStatus ?? 0) >= 500) {
+    return new TransientError(message, body, "Temporary Facebook error. Retry after a short delay.");
+  }
+  return new FacebookApiError(message, body);
+};
+
+const readGraphBody = (error: unknown): GraphErrorBody | undefined => {
+  const candidate = error as Record<string, unknown> | undefined;
+  if (!candidate || typeof candidate !== "object") return undefined;
+
+  for (const nested of [candidate.error, (candidate.response as Record<string, unknown> | undefined)?.error, candidate.body]) {
+    if (nested && typeof nested === "object" && "code" in nested) return nested as GraphErrorBody;
+  }
+  if (typeof candidate.code === "number") {
+    return {
+      ...(candidate as GraphErrorBody),
+      error_subcode: (candidate.error_subcode ?? candidate.subcode) as number | undefined,
+      fbtrace_id: (candidate.fbtrace_id ?? candidate.fbtraceId) as string | undefined,
+    };
+  }
+
+  // Fall back to a JSON error body or "(#code)" embedded in the message
+  const message = typeof candidate.message === "string" ? candidate.message : "";
+  const json = /\{.*"code".*\}/s.exec(message)?.[0];
+  if (json) {
+    try {
+      const parsed = JSON.parse(json) as { error?: GraphErrorBody } & GraphErrorBody;
+      return parsed.error ?? parsed;
+    } catch {
+      // not JSON after all
+    }
+  }
+  const code = /\(#(\d+)\)/.exec(message)?.[1];
+  return code ? { message, code: Number(code) } : undefined;
+};
+
+/**
+ * Normalize anything thrown by GraphApiClient, fetch or argument parsing.
+ */
+export const toFacebookError = (error: unknown): FacebookApiError => {
+  if (error instanceof FacebookApiError) return error;
+
+  if (error instanceof Error && error.name === "ZodError") {
+    return new ValidationError(error.message, {}, "Fix the tool arguments to match the schema and call again.");
+  }
+
+  const body = readGraphBody(error);
+  if (body) {
+    const status = (error as { status?: unknown }).status;
+    return fromGraphError({ message: error instanceof Error ? error.message : undefined, ...body },
+      typeof status === "number" ? status : undefined);
+  }
+
+  // Network failures (DNS, resets, timeouts) surface as TypeError from fetch
+  if (error instanceof TypeError && /fetch|network|socket|ECONN|ETIMEDOUT/i.test(error.message)) {
+    return new TransientError(error.message, {}, "Network error reaching Facebook. Retry after a short delay.");
+  }
+
+  return new FacebookApiError(error instanceof Error ? error.message : String(error));
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tool Results
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ToolErrorResult {
+  error: {
+    type: FacebookErrorKind;
+    message: string;
+    code: number | undefined;
+    subcode: number | undefined;
+    fbtrace_id: string | undefined;
+    retryable: boolean;
+    suggested_fix: string;
+  };
+}
+
+export const toToolErrorResult = (error: unknown): ToolErrorResult => ({
+  error: toFacebookError(error).toJSON(),
+});
+
+export const isToolErrorResult = (result: unknown): result is ToolErrorResult =>
+  typeof result === "object" && result !== null && "error" in result
+  && typeof (result as ToolErrorResult).error?.type === "string"
+  && typeof (result as ToolErrorResult).error?.retryable === "boolean";
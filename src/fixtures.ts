@@ -0,0 +1,421 @@
+import { graphConfig, GraphApiClient } from "@meta-mcp/core";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { GraphRequestPreview } from "./dryRun.js";
+import { fromGraphError, toFacebookError, type GraphErrorBody } from "./errors.js";
+
+/**
+ * Record-and-Replay Fixtures
+ *
+ * FixtureGraphClient wraps the client given to FacebookManager. In record
+ * mode it passes requests through and captures each request/response pair;
+ * in replay mode it answers from a fixture file without touching the
+ * network. Tokens and personal data are redacted before anything is kept.
+ *
+ * Binary uploads (fb_post_video with file_path, Reel uploads) go straight to
+ * fetch and are not captured.
+ */
+
+type GraphRequestOptions = Parameters<GraphApiClient["request"]>[0];
+
+export type FixtureMode = "record" | "replay";
+
+export interface GraphInteraction {
+  request: GraphRequestPreview;
+  /** Parsed response body, absent when the request failed */
+  response?: unknown;
+  /** Graph error body, rethrown on replay */
+  error?: GraphErrorBody;
+}
+
+export interface GraphFixtureFile {
+  version: 1;
+  /** Graph API version the interactions were recorded against (e.g. v24.0) */
+  graph_version: string | undefined;
+  recorded_at: string;
+  interactions: GraphInteraction[];
+}
+
+export interface GraphFixtureOptions {
+  /** Page the recording acts as; its own name and posts are kept readable */
+  pageId?: string;
+  /** Default: taken from graphConfig.baseUrl */
+  graphVersion?: string;
+  /** Also compare params and bodies on replay, not just method and endpoint (default: false) */
+  strict?: boolean;
+  /** Extra keys whose values are secrets */
+  secretKeys?: string[];
+  /** Extra keys whose values identify a person */
+  personalKeys?: string[];
+}
+
+/** A replayed request did not line up with the recording */
+export class FixtureMismatchError extends Error {
+  readonly expected: GraphRequestPreview | undefined;
+  readonly actual: GraphRequestPreview;
+
+  constructor(message: string, expected: GraphRequestPreview | undefined, actual: GraphRequestPreview) {
+    super(message);
+    this.name = new.target.name;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Redaction
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const REDACTED = "REDACTED";
+
+const SECRET_KEYS = ["access_token", "appsecret_proof", "client_secret", "fb_exchange_token", "input_token", "token"];
+const PERSONAL_KEYS = ["name", "first_name", "last_name", "email", "phone", "birthday", "snippet"];
+// Text is only personal when someone other than the Page wrote it
+const AUTHORED_KEYS = ["message", "text"];
+// Objects (or lists under data) whose id is a person's, unless it is the Page's
+const PERSON_KEYS = ["from", "to", "participants", "recipient", "sender"];
+// Strings that hold a person's Page-scoped ID
+const PERSON_ID_KEYS = ["user_id", "recipient_id"];
+// Pseudonymized IDs come back from replayed responses and are passed on as is
+const PSEUDONYM_ID = /^user_\d+$/;
+// Media URLs show what someone sent or posted and carry signed CDN parameters
+const MEDIA_URL_KEYS = ["file_url"];
+// Objects whose url or src is a media URL (message attachments, post media)
+const MEDIA_KEYS = ["image_data", "video_data", "image"];
+const PSEUDONYM_URL = /^url_\d+$/;
+
+// Query-string tokens (paging URLs) and bare user/page tokens inside strings
+const TOKEN_PATTERNS: [RegExp, string][] = [
+  [/((?:access_token|appsecret_proof|input_token)=)[^&\s"]+/g, `$1${REDACTED}`],
+  [/\bEAA[A-Za-z0-9]{20,}/g, REDACTED],
+];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Replaces secrets with REDACTED and personal data with stable pseudonyms
+ * (the same name always becomes the same `name_N` within one fixture, the
+ * same person's ID the same `user_N` and the same media URL the same
+ * `url_N`, wherever it reappears). Page and post IDs are kept.
+ */
+class Redactor {
+  private readonly pageId: string | undefined;
+  private readonly secretKeys: Set<string>;
+  private readonly personalKeys: Set<string>;
+  private readonly pseudonyms = new Map<string, string>();
+  private readonly counters = new Map<string, number>();
+
+  constructor(options: GraphFixtureOptions) {
+    this.pageId = options.pageId;
+    this.secretKeys = new Set([...SECRET_KEYS, ...(options.secretKeys ?? [])]);
+    this.personalKeys = new Set([...PERSONAL_KEYS, ...(options.personalKeys ?? [])]);
+  }
+
+  redact<T>(value: T): T {
+    return this.walk(value) as T;
+  }
+
+  /**
+   * @param person - value is a person reference (from, participants, ...)
+   * @param parent - key the value is stored under
+   */
+  private walk(value: unknown, person = false, parent?: string): unknown {
+    if (typeof value === "string") return this.redactString(value);
+    if (Array.isArray(value)) return value.map((item) => this.walk(item, person, parent));
+    if (!isObject(value)) return value;
+
+    const from = isObject(value.from) ? value.from : undefined;
+    const ownedByPage = this.pageId !== undefined && (value.id === this.pageId || from?.id === this.pageId);
+    const writtenBySomeoneElse = from !== undefined && !ownedByPage;
+
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => {
+      if (this.secretKeys.has(key) && typeof child === "string") return [key, REDACTED];
+      if (typeof child === "string" && ((person && key === "id") || PERSON_ID_KEYS.includes(key))) {
+        return [key, this.personId(child)];
+      }
+      if (typeof child === "string" && (
+        MEDIA_URL_KEYS.includes(key) || ((key === "url" || key === "src") && MEDIA_KEYS.includes(parent ?? ""))
+      )) {
+        return [key, this.mediaUrl(child)];
+      }
+      if (typeof child === "string" && (
+        (this.personalKeys.has(key) && !ownedByPage) || (AUTHORED_KEYS.includes(key) && writtenBySomeoneElse)
+      )) {
+        return [key, this.pseudonym(key, child)];
+      }
+      return [key, this.walk(child, PERSON_KEYS.includes(key) || (person && key === "data"), key)];
+    }));
+  }
+
+  private personId(id: string): string {
+    return id === this.pageId || PSEUDONYM_ID.test(id) ? id : this.pseudonym("user", id);
+  }
+
+  private mediaUrl(url: string): string {
+    return PSEUDONYM_URL.test(url) ? url : this.pseudonym("url", url);
+  }
+
+  private redactString(value: string): string {
+    // A media URL seen earlier, passed back in a request (e.g. re-posting a photo)
+    const mediaUrl = this.pseudonyms.get(`url:${value}`);
+    if (mediaUrl) return mediaUrl;
+    return TOKEN_PATTERNS
+      .reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value)
+      // user_id in paging URLs
+      .replace(/\b(user_id=)(\d+)/g, (_match, prefix: string, id: string) => `${prefix}${this.personId(id)}`);
+  }
+
+  private pseudonym(key: string, value: string): string {
+    const id = `${key}:${value}`;
+    const existing = this.pseudonyms.get(id);
+    if (existing) return existing;
+    const count = (this.counters.get(key) ?? 0) + 1;
+    this.counters.set(key, count);
+    const pseudonym = `${key}_${count}`;
+    this.pseudonyms.set(id, pseudonym);
+    return pseudonym;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fixtures
+// ─────────────────────────────────────────────────────────────────────────────
+
+const versionOf = (baseUrl: string | undefined) => /\/(v\d+\.\d+)\/?$/.exec(baseUrl ?? "")?.[1];
+
+const toPreview = (options: GraphRequestOptions): GraphRequestPreview => ({
+  method: options.method,
+  endpoint: options.endpoint,
+  ...(options.params ? {
+    params: Object.fromEntries(Object.entries(options.params).filter(([, value]) => value !== undefined)),
+  } : {}),
+  ...(options.body !== undefined ? { body: options.body } : {}),
+});
+
+// Sorted keys keep recordings of the same run diffable
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isObject(value)) return value;
+  return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys(value[key])]));
+};
+
+const describe = (request: GraphRequestPreview | undefined) =>
+  request ? `${request.method} ${request.endpoint}` : "nothing";
+
+export class GraphFixtures {
+  readonly mode: FixtureMode;
+  readonly file: string;
+  private readonly options: GraphFixtureOptions;
+  private readonly redactor: Redactor;
+  private readonly interactions: GraphInteraction[];
+  private readonly graphVersion: string | undefined;
+  private cursor = 0;
+
+  private constructor(mode: FixtureMode, file: string, options: GraphFixtureOptions, recorded?: GraphFixtureFile) {
+    this.mode = mode;
+    this.file = file;
+    this.options = options;
+    this.redactor = new Redactor(options);
+    this.interactions = recorded?.interactions ?? [];
+    this.graphVersion = recorded?.graph_version ?? options.graphVersion ?? versionOf(graphConfig.baseUrl);
+  }
+
+  /**
+   * Start a recording that will be written to `file` by save().
+   */
+  static record(file: string, options: GraphFixtureOptions = {}): GraphFixtures {
+    return new GraphFixtures("record", file, options);
+  }
+
+  /**
+   * Load a recording to serve back.
+   */
+  static async replay(file: string, options: GraphFixtureOptions = {}): Promise<GraphFixtures> {
+    const recorded = JSON.parse(await readFile(file, "utf8")) as GraphFixtureFile;
+    return new GraphFixtures("replay", file, options, recorded);
+  }
+
+  /**
+   * GRAPH_FIXTURES=record|replay with GRAPH_FIXTURES_FILE (default:
+   * fixtures/graph.json). Returns undefined when GRAPH_FIXTURES is unset.
+   */
+  static async fromEnv(options: GraphFixtureOptions = {}): Promise<GraphFixtures | undefined> {
+    const mode = process.env.GRAPH_FIXTURES;
+    const file = process.env.GRAPH_FIXTURES_FILE ?? "fixtures/graph.json";
+    if (mode === "record") return GraphFixtures.record(file, options);
+    if (mode === "replay") return GraphFixtures.replay(file, options);
+    if (mode) throw new Error(`GRAPH_FIXTURES must be "record" or "replay", got "${mode}"`);
+    return undefined;
+  }
+
+  /**
+   * A client that records through `inner`, or replays without it.
+   * Clients from one GraphFixtures share a single ordered recording.
+   */
+  client(inner?: GraphApiClient): FixtureGraphClient {
+    return new FixtureGraphClient(this, inner);
+  }
+
+  /** @internal Called by FixtureGraphClient */
+  async handle<T>(options: GraphRequestOptions, inner: GraphApiClient | undefined): Promise<T> {
+    const request = this.redactor.redact(toPreview(options));
+    return this.mode === "record" ? this.capture<T>(request, options, inner) : this.serve<T>(request);
+  }
+
+  /** Interactions not yet served (replay) or captured so far (record) */
+  get pending(): number {
+    return this.mode === "replay" ? this.interactions.length - this.cursor : this.interactions.length;
+  }
+
+  /**
+   * Record mode: write the fixture file. Replay mode: fail if the run made
+   * fewer requests than were recorded.
+   * @throws FixtureMismatchError when replayed requests were left over
+   */
+  async save(): Promise<void> {
+    if (this.mode === "replay") {
+      const next = this.interactions[this.cursor];
+      if (next) {
+        throw new FixtureMismatchError(
+          `Replay ended with ${this.pending} recorded request(s) unused, starting with ${describe(next.request)}`,
+          next.request, next.request);
+      }
+      return;
+    }
+    const fixture: GraphFixtureFile = {
+      version: 1,
+      graph_version: this.graphVersion,
+      recorded_at: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(this.file, `${JSON.stringify(sortKeys(fixture), null, 2)}\n`);
+  }
+
+  private async capture<T>(request: GraphRequestPreview, options: GraphRequestOptions, inner: GraphApiClient | undefined): Promise<T> {
+    if (!inner) throw new Error("Recording needs a client to send requests through");
+    try {
+      const response = await inner.request<T>(options);
+      this.interactions.push({ request, response: this.redactor.redact(response) });
+      return response;
+    } catch (error) {
+      const failure = toFacebookError(error);
+      this.interactions.push({
+        request,
+        error: this.redactor.redact({
+          message: failure.message,
+          code: failure.code,
+          error_subcode: failure.subcode,
+          fbtrace_id: failure.fbtraceId,
+          is_transient: failure.kind === "transient" || undefined,
+        }),
+      });
+      throw error;
+    }
+  }
+
+  private serve<T>(request: GraphRequestPreview): Promise<T> {
+    const recorded = this.interactions[this.cursor];
+    const matches = recorded
+      && recorded.request.method === request.method
+      && recorded.request.endpoint === request.endpoint
+      && (!this.options.strict || JSON.stringify(sortKeys(recorded.request)) === JSON.stringify(sortKeys(request)));
+    if (!matches) {
+      throw new FixtureMismatchError(
+        `Request ${this.cursor + 1} was ${describe(request)} but the recording has ${describe(recorded?.request)}`,
+        recorded?.request, request);
+    }
+    this.cursor++;
+    if (recorded.error) return Promise.reject(fromGraphError(recorded.error));
+    return Promise.resolve(structuredClone(recorded.response) as T);
+  }
+}
+
+export class FixtureGraphClient extends GraphApiClient {
+  private readonly fixtures: GraphFixtures;
+  private readonly inner: GraphApiClient | undefined;
+
+  /**
+   * @param inner - Client that talks to Graph while recording
+   */
+  constructor(fixtures: GraphFixtures, inner?: GraphApiClient) {
+    super({ ...graphConfig, accessToken: "" });
+    this.fixtures = fixtures;
+    this.inner = inner;
+  }
+
+  override async request<T = Record<string, unknown>>(options: GraphRequestOptions): Promise<T> {
+    return this.fixtures.handle<T>(options, this.inner);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Version Diffing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface FixtureShapeChange {
+  /** Index of the interaction in both recordings */
+  interaction: number;
+  request: string;
+  /** Field path such as data[].from.name, or "" for the request itself */
+  path: string;
+  change: "added" | "removed" | "type_changed" | "request_changed";
+  before?: string;
+  after?: string;
+}
+
+const shapeOf = (value: unknown, path = "", shape = new Map<string, Set<string>>()) => {
+  const type = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  if (path) shape.set(path, (shape.get(path) ?? new Set()).add(type));
+  if (Array.isArray(value)) {
+    for (const item of value) shapeOf(item, `${path}[]`, shape);
+  } else if (isObject(value)) {
+    for (const [key, child] of Object.entries(value)) shapeOf(child, path ? `${path}.${key}` : key, shape);
+  }
+  return shape;
+};
+
+const typesOf = (types: Set<string>) => [...types].sort().join("|");
+
+// Numeric IDs differ between runs, so requests are compared with them masked
+const requestShape = ({ method, endpoint }: GraphRequestPreview) => `${method} ${endpoint.replace(/\d+(_\d+)?/g, "{id}")}`;
+
+/**
+ * Compare the response structure of two recordings of the same run, e.g.
+ * before and after a Graph version bump. Values are ignored; fields that
+ * appear, disappear or change type are reported.
+ */
+export const diffFixtureShapes = (before: GraphFixtureFile, after: GraphFixtureFile): FixtureShapeChange[] => {
+  const changes: FixtureShapeChange[] = [];
+  const count = Math.max(before.interactions.length, after.interactions.length);
+
+  for (let index = 0; index < count; index++) {
+    const old = before.interactions[index];
+    const current = after.interactions[index];
+    const request = requestShape((current ?? old)!.request);
+    if (!old || !current || requestShape(old.request) !== requestShape(current.request)) {
+      changes.push({
+        interaction: index, request, path: "", change: "request_changed",
+        before: old && requestShape(old.request), after: current && requestShape(current.request),
+      });
+      continue;
+    }
+
+    const oldShape = shapeOf(old.error ? { error: old.error } : old.response);
+    const newShape = shapeOf(current.error ? { error: current.error } : current.response);
+    for (const [path, types] of oldShape) {
+      const next = newShape.get(path);
+      if (!next) changes.push({ interaction: index, request, path, change: "removed", before: typesOf(types) });
+      else if (typesOf(next) !== typesOf(types)) {
+        changes.push({ interaction: index, request, path, change: "type_changed", before: typesOf(types), after: typesOf(next) });
+      }
+    }
+    for (const [path, types] of newShape) {
+      if (!oldShape.has(path)) changes.push({ interaction: index, request, path, change: "added", after: typesOf(types) });
+    }
+  }
+  return changes;
+};
@@ -1,5 +1,19 @@
+export * from "./approval.js";
+export * from "./audit.js";
+export * from "./batch.js";
+export * from "./dryRun.js";
+export * from "./errors.js";
 export * from "./manager.js";
+export * from "./messenger.js";
+export * from "./pageRegistry.js";
+export * from "./pagination.js";
+export * from "./postHistory.js";
+export * from "./postValidation.js";
+export * from "./rateLimit.js";
+export * from "./tokenInspector.js";
+export * from "./tokenManager.js";
 export * from "./toolSchemas.js";
 export * from "./toolRegistry.js";
 export * from "./ai-sdk.js";
+export * from "./webhooks.js";
 // additionally I should export types if needed, but manager exports class.
@@ -5,6 +5,249 @@ import type {
   GraphApiCollection,
   PostShareCount,
 } from "@meta-mcp/core";
+import { realpath } from "node:fs/promises";
+import { isAbsolute, relative } from "node:path";
+import { executeBatch, type BatchOperation, type BatchOptions, type BatchResult } from "./batch.js";
+import { DryRunGraphClient, RecordingGraphClient, type DryRunResult, type GraphRequestPreview } from "./dryRun.js";
+import { toFacebookError, ValidationError } from "./errors.js";
+import { buildSendApiBody, type MessengerContent, type SendMessageOptions } from "./messenger.js";
+import { PageRegistry, toPageSummary, type PageSummary } from "./pageRegistry.js";
+import { paginate, type PaginationLimits } from "./pagination.js";
+import {
+  createSnapshot,
+  FilePostHistoryStore,
+  MemoryPostHistoryStore,
+  SNAPSHOT_FIELDS,
+  type PostFields,
+  type PostHistoryStore,
+  type PostSnapshot,
+} from "./postHistory.js";
+import { RateLimiter, ThrottledGraphClient, type RateLimitStatus } from "./rateLimit.js";
+import { TokenInspector, type AccessReport } from "./tokenInspector.js";
+import { TokenManager } from "./tokenManager.js";
+import {
+  FileUploadSessionStore,
+  getVideoSourceSize,
+  MemoryUploadSessionStore,
+  progressEvent,
+  transferVideoChunk,
+  uploadSessionKey,
+  uploadToRupload,
+  type BinaryVideoSource,
+  type UploadProgressEvent,
+  type UploadSession,
+  type UploadSessionStore,
+  type VideoSource,
+} from "./videoUpload.js";
+
+export type { BinaryVideoSource, UploadProgressEvent, UploadSessionStore, VideoSource } from "./videoUpload.js";
+
+export interface FacebookManagerOptions {
+  /** Access token for binary video uploads that bypass GraphApiClient */
+  accessToken?: string;
+  /** Graph API base URL (e.g. https://graph.facebook.com/v24.0) for binary uploads */
+  baseUrl?: string;
+  /** Where chunked upload sessions are persisted for resuming (default: JSON file in temp dir) */
+  uploadSessionStore?: UploadSessionStore;
+  /**
+   * Directory the local files of fb_post_video (file_path) must be in. Without
+   * it, the tools refuse local files.
+   */
+  uploadRoot?: string;
+  /** Resolves Page tokens so the manager can act on other Pages via forPage() */
+  pageRegistry?: PageRegistry;
+  /** Limiter shared by the manager's clients, reported by getRateLimitStatus() */
+  rateLimiter?: RateLimiter;
+  /** Supplies rotated tokens instead of a static accessToken */
+  tokenManager?: TokenManager;
+  /** Record write requests instead of sending them (reads still go to Graph) */
+  dryRun?: boolean;
+  /** Where posts are snapshotted before updates and deletes (default: in memory; fromEnv uses a JSONL file in the home dir) */
+  postHistory?: PostHistoryStore;
+}
+
+export interface PostOptions {
+  link?: string;
+  place?: string;
+  published?: boolean;
+  scheduled_publish_time?: number;
+}
+
+export interface PhotoOptions extends Omit<PostOptions, "link"> {
+  caption?: string;
+  /** Description read by screen readers in place of the automatic one */
+  alt_text?: string;
+}
+
+export interface UndoResult {
+  action: PostSnapshot["action"];
+  snapshot_id: string;
+  /** Post holding the restored content (a new ID when a deleted post is re-created) */
+  post_id: string;
+  restored: string[];
+  not_restored: string[];
+}
+
+export interface MultiPhotoImage {
+  url: string;
+  caption?: string;
+  alt_text?: string;
+}
+
+export interface PollOptions {
+  /** Delay between status checks (default: 5s) */
+  intervalMs?: number;
+  /** Give up after this long (default: 5 min) */
+  timeoutMs?: number;
+}
+
+export interface ReelOptions {
+  description?: string;
+  /** Offset in milliseconds of the frame used as thumbnail */
+  thumb_offset?: number;
+  /** Unix timestamp to schedule publication instead of publishing now */
+  scheduled_publish_time?: number;
+  /** Poll the video status until processing completes */
+  wait_for_processing?: boolean;
+  poll?: PollOptions;
+}
+
+interface VideoPhase {
+  status?: string;
+  errors?: { code?: number; message: string }[];
+}
+
+export interface VideoStatus {
+  video_status?: string;
+  uploading_phase?: VideoPhase;
+  processing_phase?: VideoPhase;
+  publishing_phase?: VideoPhase & { publish_status?: string; publish_time?: number };
+}
+
+export interface ResumableVideoOptions {
+  description?: string;
+  title?: string;
+  /** Identifies a Buffer upload for resuming; local files are keyed by path, size and mtime */
+  session_key?: string;
+  /** Attempts per failed chunk before giving up (default: 3) */
+  chunk_retries?: number;
+  onProgress?: (event: UploadProgressEvent) => void;
+}
+
+export interface ResumableVideoResult {
+  id: string;
+  success: boolean;
+  /** True when the upload continued a persisted session */
+  resumed: boolean;
+}
+
+export interface ReelResult {
+  id: string;
+  permalink_url: string | undefined;
+  status?: VideoStatus;
+}
+
+export interface Conversation {
+  id: string;
+  updated_time: string;
+  unread_count?: number;
+  message_count?: number;
+  snippet?: string;
+  participants?: { data: { id: string; name?: string; email?: string }[] };
+}
+
+export interface ConversationMessage {
+  id: string;
+  created_time: string;
+  message?: string;
+  from?: { id: string; name?: string; email?: string };
+  to?: { data: { id: string; name?: string }[] };
+  attachments?: { data: Record<string, unknown>[] };
+}
+
+export interface MessagingWindow {
+  user_id: string;
+  /** True if a standard (RESPONSE/UPDATE) message can still be sent */
+  open: boolean;
+  conversation_id?: string;
+  last_user_message_time?: string;
+  /** When the window closes (ISO 8601) */
+  expires_at?: string;
+}
+
+const MESSAGING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type CommentField = "attachment" | "like_count" | "comment_count" | "is_hidden" | "parent" | "permalink_url";
+
+export interface CommentQueryOptions {
+  /** "toplevel" (default) returns only top-level comments; "stream" returns all, flattened */
+  filter?: "toplevel" | "stream";
+  order?: "chronological" | "reverse_chronological";
+  /** Extra fields on top of id, message, from and created_time */
+  fields?: CommentField[];
+  /** Recursively fetch replies into a nested `replies` tree */
+  expand_replies?: boolean;
+  /** How many reply levels to expand (default: 2) */
+  max_depth?: number;
+}
+
+export type CommentNode = FacebookComment & {
+  comment_count?: number;
+  replies?: CommentNode[];
+  [field: string]: unknown;
+};
+
+const BASE_COMMENT_FIELDS = ["id", "message", "from", "created_time"];
+
+const commentFields = (options: CommentQueryOptions) => {
+  // comment_count lets thread expansion skip comments without replies
+  const extra = options.expand_replies ? [...(options.fields ?? []), "comment_count"] : options.fields ?? [];
+  return [...new Set([...BASE_COMMENT_FIELDS, ...extra])].join(",");
+};
+
+export type CommentModerationAction = "hide" | "unhide" | "like" | "unlike" | "edit" | "private_reply";
+
+export type PageInsightsPeriod = "day" | "week" | "days_28";
+
+export interface PageInsightsOptions {
+  metrics?: readonly string[];
+  period?: PageInsightsPeriod;
+  since?: Date;
+  until?: Date;
+}
+
+export interface PageInsightsSeries {
+  metric: string;
+  period: string;
+  title?: string;
+  description?: string;
+  values: { end_time: string; value: unknown }[];
+}
+
+export interface PageInsightsResult {
+  period: PageInsightsPeriod;
+  since: string;
+  until: string;
+  series: PageInsightsSeries[];
+}
+
+interface RawInsightMetric {
+  name: string;
+  period: string;
+  title?: string;
+  description?: string;
+  values?: { end_time: string; value: unknown }[];
+}
+
+const toUnixSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Graph rejects a scheduled_publish_time unless published is explicitly false
+const publishingParams = (options: Pick<PostOptions, "published" | "scheduled_publish_time">) => ({
+  published: options.scheduled_publish_time !== undefined ? false : options.published,
+  scheduled_publish_time: options.scheduled_publish_time,
+});
 
 /**
  * Facebook Graph API Manager
@@ -15,44 +258,293 @@ import type {
 export class FacebookManager {
   private readonly client: GraphApiClient;
   private readonly pageId: string;
+  private readonly accessToken: string | undefined;
+  private readonly baseUrl: string | undefined;
+  private readonly uploadSessions: UploadSessionStore;
+  private readonly postHistory: PostHistoryStore;
+  private readonly options: FacebookManagerOptions;
+  private readonly pageManagers = new Map<string, { client: GraphApiClient; manager: FacebookManager }>();
 
-  constructor(client: GraphApiClient, pageId: string) {
-    this.client = client;
+  constructor(client: GraphApiClient, pageId: string, options: FacebookManagerOptions = {}) {
+    this.client = options.dryRun && !(client instanceof DryRunGraphClient) ? new DryRunGraphClient(client) : client;
     this.pageId = pageId;
+    this.accessToken = options.accessToken;
+    this.baseUrl = options.baseUrl;
+    // Dry runs must not resume, or leave behind, real upload sessions
+    this.uploadSessions = options.dryRun
+      ? new MemoryUploadSessionStore()
+      : options.uploadSessionStore ?? new FileUploadSessionStore();
+    this.postHistory = options.postHistory ?? new MemoryPostHistoryStore();
+    this.options = { ...options, uploadSessionStore: this.uploadSessions, postHistory: this.postHistory };
   }
 
-  static fromEnv(): FacebookManager {
-    return new FacebookManager(new GraphApiClient(graphConfig), graphConfig.pageId);
+  /**
+   * Build a manager from graphConfig. When USER_ACCESS_TOKEN is set, a
+   * PageRegistry is attached so tools can target any Page the user manages.
+   * With a TokenManager (passed in, or built from APP_ID/APP_SECRET), tokens
+   * come from it instead of the static PAGE_ACCESS_TOKEN. DRY_RUN=true turns
+   * on dry-run mode for every write. Post snapshots for fb_undo are kept in
+   * a JSONL file in the home dir so they survive restarts.
+   */
+  static fromEnv(options: { tokenManager?: TokenManager; dryRun?: boolean } = {}): FacebookManager {
+    const userToken = process.env.USER_ACCESS_TOKEN;
+    const dryRun = options.dryRun ?? process.env.DRY_RUN === "true";
+    const uploadRoot = process.env.UPLOAD_ROOT || undefined;
+    // All clients draw on the same app quota, so they share one limiter
+    const rateLimiter = new RateLimiter();
+    const postHistory = new FilePostHistoryStore();
+    const createClient = (accessToken: string) => new ThrottledGraphClient({ ...graphConfig, accessToken }, rateLimiter);
+
+    const tokenManager = options.tokenManager ?? TokenManager.fromEnv({ createClient });
+    if (tokenManager) {
+      return new FacebookManager(tokenManager.clientFor(graphConfig.pageId), graphConfig.pageId, {
+        baseUrl: graphConfig.baseUrl,
+        uploadRoot,
+        rateLimiter,
+        tokenManager,
+        postHistory,
+        dryRun,
+        pageRegistry: new PageRegistry(tokenManager.userClient(), { createClient }),
+      });
+    }
+
+    return new FacebookManager(new ThrottledGraphClient(graphConfig, rateLimiter), graphConfig.pageId, {
+      accessToken: graphConfig.accessToken,
+      baseUrl: graphConfig.baseUrl,
+      uploadRoot,
+      rateLimiter,
+      dryRun,
+      postHistory,
+      pageRegistry: userToken
+        ? new PageRegistry(createClient(userToken), { createClient })
+        : undefined,
+    });
+  }
+
+  /**
+   * Current Graph API quota usage as reported by the usage headers.
+   */
+  getRateLimitStatus(): RateLimitStatus & { tracking: boolean } {
+    const limiter = this.options.rateLimiter;
+    if (!limiter) {
+      return { tracking: false, business_use_case: {}, max_usage_percent: 0 };
+    }
+    return { tracking: true, ...limiter.status() };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Dry Run
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /** Whether writes are recorded instead of sent by default */
+  get isDryRun(): boolean {
+    return this.options.dryRun ?? false;
+  }
+
+  /**
+   * Run an action against a copy of this manager that records write requests
+   * instead of sending them, and return the requests it would have made.
+   * @param action - Manager calls to preview
+   */
+  async dryRun(action: (manager: FacebookManager) => Promise<unknown>): Promise<DryRunResult> {
+    const client = new DryRunGraphClient(this.client);
+    await action(new FacebookManager(client, this.pageId, { ...this.options, dryRun: true }));
+    return client.result();
+  }
+
+  /**
+   * A copy of this manager that sends requests normally and collects the
+   * write requests into `requests` (used for auditing).
+   */
+  recording(): { manager: FacebookManager; requests: GraphRequestPreview[] } {
+    const client = new RecordingGraphClient(this.client);
+    return { manager: new FacebookManager(client, this.pageId, this.options), requests: client.requests };
+  }
+
+  private get recorder(): DryRunGraphClient | undefined {
+    return this.client instanceof DryRunGraphClient ? this.client : undefined;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Multi-Page
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * The Page this manager acts on.
+   */
+  getPageId(): string {
+    return this.pageId;
+  }
+
+  /**
+   * Get a manager bound to another Page, using its token from the PageRegistry.
+   * @param pageId - Target Page (default: this manager's Page)
+   */
+  async forPage(pageId?: string): Promise<FacebookManager> {
+    if (!pageId || pageId === this.pageId) return this;
+
+    const registry = this.options.pageRegistry;
+    if (!registry) {
+      throw new Error(`Cannot act on page ${pageId}: multi-page support requires a PageRegistry (set USER_ACCESS_TOKEN)`);
+    }
+
+    const client = await registry.clientFor(pageId);
+    const cached = this.pageManagers.get(pageId);
+    if (cached?.client === client) return cached.manager;
+
+    const page = await registry.getPage(pageId);
+    const manager = new FacebookManager(client, pageId, { ...this.options, accessToken: page.access_token });
+    this.pageManagers.set(pageId, { client, manager });
+    return manager;
+  }
+
+  /**
+   * List the Pages this manager can act on (tokens are never included).
+   * Without a PageRegistry only the configured Page is returned.
+   */
+  async listPages(refresh = false): Promise<PageSummary[]> {
+    const registry = this.options.pageRegistry;
+    if (registry) {
+      return (await registry.listPages(refresh)).map(toPageSummary);
+    }
+    const page = await this.client.request<PageSummary>({
+      method: "GET",
+      endpoint: this.pageId,
+      params: { fields: "id,name,category" },
+    });
+    return [page];
+  }
+
+  /**
+   * Token for calls that bypass GraphApiClient (binary transfers, diagnostics).
+   */
+  private async requireAccessToken(): Promise<string> {
+    const tokenManager = this.options.tokenManager;
+    // Managers from forPage() carry their resolved Page token
+    if (!this.accessToken && tokenManager) return tokenManager.getPageToken(this.pageId);
+    if (!this.accessToken) {
+      throw new Error("An access token is required for uploads and token diagnostics; pass accessToken or tokenManager in FacebookManager options");
+    }
+    return this.accessToken;
+  }
+
+  /**
+   * Resolve a local file a tool was asked to upload, following symlinks, and
+   * make sure it is inside uploadRoot.
+   * @throws ValidationError if no uploadRoot is configured or the file is outside it
+   */
+  async resolveUploadPath(filePath: string): Promise<string> {
+    const uploadRoot = this.options.uploadRoot;
+    if (!uploadRoot) {
+      throw new ValidationError("Uploading local files is turned off", {},
+        "Pass a public file_url instead, or configure uploadRoot (UPLOAD_ROOT) to allow files from one directory.");
+    }
+    const [root, resolved] = await Promise.all([
+      realpath(uploadRoot),
+      realpath(filePath).catch(() => {
+        throw new ValidationError(`File not found: ${filePath}`, {}, "Check the path of the video file.");
+      }),
+    ]);
+    const inside = relative(root, resolved);
+    if (!inside || inside.startsWith("..") || isAbsolute(inside)) {
+      throw new ValidationError("file_path is outside the upload directory", {},
+        `Move the video into ${root} and pass its path there.`);
+    }
+    return resolved;
+  }
+
+  private requireBaseUrl(): string {
+    if (!this.baseUrl) {
+      throw new Error("A Graph API base URL is required for chunked uploads; pass baseUrl in FacebookManager options");
+    }
+    return this.baseUrl.replace(/\/+$/, "");
   }
 
   // ─────────────────────────────────────────────────────────────────────────
   // Post Operations
   // ─────────────────────────────────────────────────────────────────────────
 
-  async postToFacebook(message: string, options: {
-    link?: string;
-    place?: string;
-    published?: boolean;
-    scheduled_publish_time?: number;
-  } = {}): Promise<Record<string, unknown>> {
+  async postToFacebook(message: string, options: PostOptions = {}): Promise<Record<string, unknown>> {
     return this.client.request({
       method: "POST",
       endpoint: `${this.pageId}/feed`,
       params: {
         message,
-        ...options,
+        link: options.link,
+        place: options.place,
+        ...publishingParams(options),
       },
     });
   }
 
-  async postImageToFacebook(imageUrl: string, caption: string): Promise<Record<string, unknown>> {
+  /**
+   * Post a single photo. Unpublished photos are uploaded without appearing on
+   * the Page; scheduled photos are published at scheduled_publish_time.
+   */
+  async postImageToFacebook(imageUrl: string, options: PhotoOptions = {}): Promise<Record<string, unknown>> {
     return this.client.request({
       method: "POST",
       endpoint: `${this.pageId}/photos`,
-      params: { url: imageUrl, caption },
+      params: {
+        url: imageUrl,
+        caption: options.caption,
+        place: options.place,
+        alt_text_custom: options.alt_text,
+        ...publishingParams(options),
+      },
     });
   }
 
+  /**
+   * Create a single feed post with several photos attached.
+   * Each photo is uploaded unpublished first; if any step fails, the photos
+   * already uploaded are deleted so no orphans are left on the page.
+   * @param message - Post text
+   * @param images - Photos to attach, each with an optional caption
+   * @param options - Place, publishing and scheduling options for the feed post
+   */
+  async postMultiPhotoToFacebook(
+    message: string | undefined,
+    images: MultiPhotoImage[],
+    options: Omit<PostOptions, "link"> = {}
+  ): Promise<Record<string, unknown> & { photo_ids: string[] }> {
+    const scheduled = options.scheduled_publish_time !== undefined;
+    const photoIds: string[] = [];
+
+    try {
+      for (const image of images) {
+        const photo = await this.client.request<{ id: string }>({
+          method: "POST",
+          endpoint: `${this.pageId}/photos`,
+          params: {
+            url: image.url,
+            caption: image.caption,
+            alt_text_custom: image.alt_text,
+            published: false,
+            // Scheduled posts require photos uploaded as temporary
+            temporary: scheduled ? true : undefined,
+          },
+        });
+        photoIds.push(photo.id);
+      }
+
+      const post = await this.client.request<Record<string, unknown>>({
+        method: "POST",
+        endpoint: `${this.pageId}/feed`,
+        params: {
+          message,
+          place: options.place,
+          ...publishingParams(options),
+          attached_media: JSON.stringify(photoIds.map((id) => ({ media_fbid: id }))),
+        },
+      });
+      return { ...post, photo_ids: photoIds };
+    } catch (error) {
+      await Promise.allSettled(photoIds.map((id) => this.deleteObject(id)));
+      throw error;
+    }
+  }
+
   async postVideoToFacebook(videoUrl: string, description?: string, title?: string): Promise<Record<string, unknown>> {
     const params: Record<string, string | boolean> = {
       file_url: videoUrl,
@@ -67,48 +559,369 @@ export class FacebookManager {
     });
   }
 
-  async postReelToFacebook(videoUrl: string, caption?: string): Promise<Record<string, unknown>> {
-    // Reels on FB Pages are essentially videos with specific flags or endpoints.
-    // However, the dedicated 'video_reels' endpoint is often for initial upload + publish flow.
-    // For simplicity and consistency with IG, we'll use the video endpoint but we might need 
-    // to verify if specific flags are needed for "Reel" format or if it auto-detects.
-    // According to recent Graph API, standard video upload can be used, but let's Try the specific Reel flow if available.
-    // Actually, `video_reels` endpoint is for creating a reel draft then publishing.
+  /**
+   * Upload a local file or buffer to the page's videos using the chunked
+   * start → transfer → finish protocol. Progress is persisted after each chunk,
+   * so calling this again for the same source resumes an interrupted upload.
+   * @param source - Local file or in-memory video
+   * @param options - Video metadata, retry and progress settings
+   */
+  async uploadVideoResumable(
+    source: BinaryVideoSource,
+    options: ResumableVideoOptions = {}
+  ): Promise<ResumableVideoResult> {
+    const accessToken = await this.requireAccessToken();
+    const endpointUrl = `${this.requireBaseUrl()}/${this.pageId}/videos`;
+    const fileSize = await getVideoSourceSize(source);
+    const key = await uploadSessionKey(this.pageId, source, options.session_key);
+    const report = options.onProgress ?? (() => undefined);
+
+    const persisted = key ? await this.uploadSessions.get(key) : undefined;
+    let resumed = persisted?.file_size === fileSize;
+    let session: UploadSession;
 
-    // Step 1: Initialize Reel Upload
-    const initResponse = await this.client.request<{ video_id: string; upload_url: string }>({
+    if (persisted && resumed) {
+      session = persisted;
+    } else {
+      session = await this.startUploadSession(fileSize);
+      if (key) await this.uploadSessions.set(key, session);
+    }
+    report({ ...progressEvent("start", session.start_offset, fileSize), resumed });
+    this.recorder?.record({
       method: "POST",
-      endpoint: `${this.pageId}/video_reels`,
+      endpoint: endpointUrl,
+      params: { upload_phase: "transfer", upload_session_id: session.upload_session_id, file_size: fileSize },
+    });
+
+    // The server signals completion by returning start_offset === end_offset
+    while (session.start_offset < session.end_offset) {
+      let next: { start_offset: number; end_offset: number };
+      try {
+        next = await this.transferChunkWithRetry(endpointUrl, accessToken, source, session, options.chunk_retries ?? 3);
+      } catch (error) {
+        if (!resumed) throw error;
+        // The stored session may have expired on Facebook's side: drop it and start over
+        if (key) await this.uploadSessions.delete(key);
+        resumed = false;
+        session = await this.startUploadSession(fileSize);
+        if (key) await this.uploadSessions.set(key, session);
+        report({ ...progressEvent("start", session.start_offset, fileSize), resumed });
+        continue;
+      }
+      session = { ...session, ...next };
+      if (key) await this.uploadSessions.set(key, session);
+      report(progressEvent("transfer", session.start_offset, fileSize));
+    }
+
+    const finish = await this.client.request<{ success?: boolean }>({
+      method: "POST",
+      endpoint: `${this.pageId}/videos`,
       params: {
-        upload_phase: 'start',
+        upload_phase: "finish",
+        upload_session_id: session.upload_session_id,
+        description: options.description,
+        title: options.title,
+      },
+    });
+    if (key) await this.uploadSessions.delete(key);
+    report(progressEvent("finish", fileSize, fileSize));
+
+    return { id: session.video_id, success: finish.success ?? true, resumed };
+  }
+
+  private async startUploadSession(fileSize: number): Promise<UploadSession> {
+    const start = await this.client.request<{
+      video_id: string;
+      upload_session_id: string;
+      start_offset: string;
+      end_offset: string;
+    }>({
+      method: "POST",
+      endpoint: `${this.pageId}/videos`,
+      params: { upload_phase: "start", file_size: fileSize },
+    });
+    return {
+      video_id: start.video_id,
+      upload_session_id: start.upload_session_id,
+      file_size: fileSize,
+      start_offset: Number(start.start_offset),
+      end_offset: Number(start.end_offset),
+      created_at: Date.now(),
+    };
+  }
+
+  private async transferChunkWithRetry(
+    endpointUrl: string,
+    accessToken: string,
+    source: BinaryVideoSource,
+    session: UploadSession,
+    attempts: number
+  ): Promise<{ start_offset: number; end_offset: number }> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await transferVideoChunk(endpointUrl, accessToken, source, session);
+      } catch (error) {
+        if (attempt >= attempts || !toFacebookError(error).retryable) throw error;
+        await sleep(1_000 * 2 ** (attempt - 1));
       }
+    }
+  }
+
+  /**
+   * Publish a Reel using the resumable `video_reels` flow:
+   * start → upload (hosted URL or local bytes) → finish → optional status polling.
+   * @param source - Video to upload
+   * @param options - Reel metadata and processing behaviour
+   */
+  async postReelToFacebook(source: VideoSource, options: ReelOptions = {}): Promise<ReelResult> {
+    // Step 1: Initialize the upload session
+    const initResponse = await this.client.request<{ video_id?: string; upload_url?: string }>({
+      method: "POST",
+      endpoint: `${this.pageId}/video_reels`,
+      params: { upload_phase: "start" },
     });
 
-    if (!initResponse.video_id) {
+    if (!initResponse.video_id || !initResponse.upload_url) {
       throw new Error("Failed to initialize Reel upload");
     }
+    const videoId = initResponse.video_id;
 
-    // Since we are strictly using URL-based upload in this tool for simplicity (no binary stream from client),
-    // we might be limited. The `video_reels` endpoint typically expects binary upload to the `upload_url`.
-    // Valid alternative: Use standard `/videos` endpoint which accepts `file_url`, and the content will be treated as a video.
-    // To explicitly be a "Reel", it usually needs to be short and 9:16.
-    // Let's stick to the /videos endpoint with `file_url` for now as it's most robust for URL-based flows without a server-side file proxy.
+    // Step 2: Transfer the video to the upload URL
+    const recorder = this.recorder;
+    if (recorder) {
+      recorder.record({
+        method: "POST",
+        endpoint: initResponse.upload_url,
+        params: source.type === "url" ? { file_url: source.url } : { file_size: await getVideoSourceSize(source) },
+      });
+    } else {
+      await uploadToRupload(initResponse.upload_url, await this.requireAccessToken(), source);
+    }
 
-    return this.postVideoToFacebook(videoUrl, caption, "Reel");
+    // Step 3: Finish and publish (or schedule)
+    const scheduled = options.scheduled_publish_time !== undefined;
+    await this.client.request({
+      method: "POST",
+      endpoint: `${this.pageId}/video_reels`,
+      params: {
+        upload_phase: "finish",
+        video_id: videoId,
+        video_state: scheduled ? "SCHEDULED" : "PUBLISHED",
+        description: options.description,
+        thumb_offset: options.thumb_offset,
+        scheduled_publish_time: options.scheduled_publish_time,
+      },
+    });
+
+    // Step 4: Optionally wait until Facebook has processed the video
+    const status = options.wait_for_processing
+      ? await this.waitForVideoProcessing(videoId, options.poll, { scheduled })
+      : undefined;
+
+    return {
+      id: videoId,
+      permalink_url: await this.getVideoPermalink(videoId),
+      ...(status ? { status } : {}),
+    };
   }
 
-  async updatePost(postId: string, message: string): Promise<Record<string, unknown>> {
-    return this.client.request({
+  /**
+   * Get the processing status of an uploaded video or Reel.
+   */
+  async getVideoStatus(videoId: string): Promise<VideoStatus> {
+    const response = await this.client.request<{ status?: VideoStatus }>({
+      method: "GET",
+      endpoint: videoId,
+      params: { fields: "status" },
+    });
+    return response.status ?? {};
+  }
+
+  /**
+   * Poll a video's status until it is ready or has failed. A scheduled video
+   * is not published until its publish time, so for one of those processing
+   * is enough.
+   * @throws Error if processing fails or the timeout is reached
+   */
+  async waitForVideoProcessing(
+    videoId: string,
+    poll: PollOptions = {},
+    options: { scheduled?: boolean } = {}
+  ): Promise<VideoStatus> {
+    const intervalMs = poll.intervalMs ?? 5_000;
+    const deadline = Date.now() + (poll.timeoutMs ?? 300_000);
+
+    for (;;) {
+      const status = await this.getVideoStatus(videoId);
+      const phases = [status.uploading_phase, status.processing_phase, status.publishing_phase];
+
+      if (status.video_status === "error" || phases.some((phase) => phase?.status === "error")) {
+        const detail = phases.flatMap((phase) => phase?.errors ?? []).map((e) => e.message).join("; ");
+        throw new Error(`Video ${videoId} failed processing${detail ? `: ${detail}` : ""}`);
+      }
+      if (status.video_status === "ready" || status.publishing_phase?.status === "complete") {
+        return status;
+      }
+      if (options.scheduled && status.processing_phase?.status === "complete") {
+        return status;
+      }
+      if (Date.now() + intervalMs > deadline) {
+        throw new Error(`Timed out waiting for video ${videoId} to finish processing`);
+      }
+      await sleep(intervalMs);
+    }
+  }
+
+  /**
+   * Get the absolute permalink of a video or Reel.
+   */
+  async getVideoPermalink(videoId: string): Promise<string | undefined> {
+    const response = await this.client.request<{ permalink_url?: string }>({
+      method: "GET",
+      endpoint: videoId,
+      params: { fields: "permalink_url" },
+    });
+    const permalink = response.permalink_url;
+    return permalink?.startsWith("/") ? `https://www.facebook.com${permalink}` : permalink;
+  }
+
+  /**
+   * Change a post's message. The previous version is snapshotted first so
+   * undo() can restore it.
+   */
+  async updatePost(postId: string, message: string): Promise<Record<string, unknown> & { snapshot_id: string }> {
+    return this.withSnapshot(postId, "update", () => this.client.request({
       method: "POST",
       endpoint: postId,
       params: { message },
+    }));
+  }
+
+  /**
+   * Delete a post after snapshotting it so undo() can re-create it.
+   */
+  async deletePost(postId: string): Promise<Record<string, unknown> & { snapshot_id: string }> {
+    return this.withSnapshot(postId, "delete", () => this.deleteObject(postId));
+  }
+
+  /**
+   * Revert the latest update or delete of a post (or a specific snapshot).
+   * Updates get their previous message back; deleted text, link and photo
+   * posts are re-created under a new ID. Engagement is never restored.
+   * @throws ValidationError if there is no snapshot or the post type cannot be re-created
+   */
+  async undo(target: { post_id?: string; snapshot_id?: string }): Promise<UndoResult> {
+    const snapshot = target.snapshot_id
+      ? await this.postHistory.get(target.snapshot_id)
+      : target.post_id ? (await this.postHistory.list(target.post_id))[0] : undefined;
+    if (!snapshot || snapshot.page_id !== this.pageId) {
+      throw new ValidationError("No snapshot found to undo", {},
+        "Only changes made with fb_update_post or fb_delete_post on this Page can be undone.");
+    }
+
+    const result = snapshot.action === "update"
+      ? await this.restoreMessage(snapshot)
+      : await this.recreatePost(snapshot);
+    if (!this.recorder) await this.postHistory.delete(snapshot.snapshot_id);
+    return result;
+  }
+
+  private async restoreMessage(snapshot: PostSnapshot): Promise<UndoResult> {
+    // Graph only allows editing the message of an existing post
+    await this.client.request({
+      method: "POST",
+      endpoint: snapshot.post_id,
+      params: { message: snapshot.post.message ?? "" },
+    });
+    return {
+      action: "update",
+      snapshot_id: snapshot.snapshot_id,
+      post_id: snapshot.post_id,
+      restored: ["message"],
+      not_restored: [],
+    };
+  }
+
+  private async recreatePost(snapshot: PostSnapshot): Promise<UndoResult> {
+    const { post } = snapshot;
+    const attachment = post.attachments?.data[0];
+    const photoUrl = attachment?.media_type === "photo" ? attachment.media?.image?.src : undefined;
+    if (attachment && !photoUrl && attachment.media_type !== "link") {
+      throw new ValidationError(`A deleted ${attachment.media_type ?? attachment.type ?? "media"} post cannot be re-created`, {},
+        "Only text, link and single-photo posts can be restored. Re-upload the media manually using the snapshot message.");
+    }
+
+    // A schedule can only be kept if it is still at least 10 minutes away
+    const scheduledTime = post.scheduled_publish_time && post.scheduled_publish_time * 1000 > Date.now() + 10 * 60 * 1000
+      ? post.scheduled_publish_time
+      : undefined;
+    const publishing = {
+      published: scheduledTime ? false : post.is_published ?? true,
+      scheduled_publish_time: scheduledTime,
+    };
+
+    const created = (photoUrl
+      ? await this.postImageToFacebook(photoUrl, { caption: post.message, place: post.place?.id, ...publishing })
+      : await this.postToFacebook(post.message ?? "", { link: post.link, place: post.place?.id, ...publishing })) as { id: string; post_id?: string };
+
+    const restored = [
+      ...(post.message ? ["message"] : []),
+      ...(post.link ? ["link"] : []),
+      ...(photoUrl ? ["photo"] : []),
+      ...(post.place ? ["place"] : []),
+      scheduledTime ? "scheduled_publish_time" : "published state",
+    ];
+    const notRestored = [
+      "original post ID and permalink",
+      "created_time",
+      "reactions, comments and shares",
+      "insights",
+      ...(post.scheduled_publish_time && !scheduledTime ? ["scheduled_publish_time (too soon or already passed)"] : []),
+    ];
+
+    return {
+      action: "delete",
+      snapshot_id: snapshot.snapshot_id,
+      post_id: created.post_id ?? created.id,
+      restored,
+      not_restored: notRestored,
+    };
+  }
+
+  /**
+   * Snapshot a post, then change it. The snapshot is dropped again if the
+   * change fails, so undo() never reverts a change that did not happen.
+   */
+  private async withSnapshot(
+    postId: string,
+    action: PostSnapshot["action"],
+    change: () => Promise<Record<string, unknown>>,
+  ): Promise<Record<string, unknown> & { snapshot_id: string }> {
+    const snapshot = await this.snapshotPost(postId, action);
+    try {
+      return { ...(await change()), snapshot_id: snapshot.snapshot_id };
+    } catch (error) {
+      if (!this.recorder) await this.postHistory.delete(snapshot.snapshot_id);
+      throw error;
+    }
+  }
+
+  private async snapshotPost(postId: string, action: PostSnapshot["action"]): Promise<PostSnapshot> {
+    const post = await this.client.request<PostFields>({
+      method: "GET",
+      endpoint: postId,
+      params: { fields: SNAPSHOT_FIELDS },
     });
+    const snapshot = createSnapshot(this.pageId, action, post);
+    // Dry runs read the real history but never change it
+    if (!this.recorder) await this.postHistory.save(snapshot);
+    return snapshot;
   }
 
-  async deletePost(postId: string): Promise<Record<string, unknown>> {
+  private async deleteObject(objectId: string): Promise<Record<string, unknown>> {
     return this.client.request({
       method: "DELETE",
-      endpoint: postId,
+      endpoint: objectId,
     });
   }
 
@@ -124,26 +937,170 @@ export class FacebookManager {
     });
   }
 
+  /**
+   * Iterate page posts across pages, newest first.
+   * @param options - Fields to return plus item, page and date limits
+   */
+  iteratePagePosts(options: PaginationLimits & { fields?: string } = {}): AsyncGenerator<FacebookPost> {
+    return paginate(
+      (after) => this.getPagePosts(options.pageSize ?? 100, after, options.fields),
+      options,
+      (post) => post.created_time
+    );
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Scheduled Posts
+  // ─────────────────────────────────────────────────────────────────────────
+
+  async getScheduledPosts(
+    limit = 25,
+    after?: string,
+    fields = "id,message,created_time,scheduled_publish_time"
+  ): Promise<GraphApiCollection<FacebookPost & { scheduled_publish_time?: number }>> {
+    return this.client.request({
+      method: "GET",
+      endpoint: `${this.pageId}/scheduled_posts`,
+      params: { fields, limit, after },
+    });
+  }
+
+  async reschedulePost(postId: string, scheduledPublishTime: number): Promise<Record<string, unknown>> {
+    return this.client.request({
+      method: "POST",
+      endpoint: postId,
+      params: { scheduled_publish_time: scheduledPublishTime },
+    });
+  }
+
+  async publishPostNow(postId: string): Promise<Record<string, unknown>> {
+    return this.client.request({
+      method: "POST",
+      endpoint: postId,
+      params: { is_published: true },
+    });
+  }
+
+  async cancelScheduledPost(postId: string): Promise<Record<string, unknown>> {
+    return this.deletePost(postId);
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Comment Operations
   // ─────────────────────────────────────────────────────────────────────────
 
+  /**
+   * Get comments on a post (or replies to a comment).
+   * @param postId - Post or comment ID
+   * @param limit - Max comments per page
+   * @param after - Pagination cursor
+   * @param includeSummary - Include total count summary
+   * @param options - Filter, ordering, extra fields and reply-thread expansion
+   */
   async getPostComments(
     postId: string,
     limit = 25,
     after?: string,
-    includeSummary = false
-  ): Promise<GraphApiCollection<FacebookComment> & { summary?: { total_count: number } }> {
-    return this.client.request({
+    includeSummary = false,
+    options: CommentQueryOptions = {}
+  ): Promise<GraphApiCollection<CommentNode> & { summary?: { total_count: number } }> {
+    // Expanding threads only makes sense from the top level; stream would flatten replies in
+    if (options.expand_replies && options.filter === "stream") {
+      throw new ValidationError("expand_replies cannot be combined with filter: stream", {},
+        "Omit filter (or set it to toplevel) to expand reply threads, or drop expand_replies to read the flat stream.");
+    }
+    const filter = options.expand_replies ? "toplevel" : options.filter;
+    const response = await this.client.request<GraphApiCollection<CommentNode> & { summary?: { total_count: number } }>({
       method: "GET",
       endpoint: `${postId}/comments`,
       params: {
-        fields: "id,message,from,created_time",
+        fields: commentFields(options),
         limit,
         after,
+        filter,
+        order: options.order,
         summary: includeSummary ? "true" : undefined,
       },
     });
+
+    if (options.expand_replies) {
+      const maxDepth = options.max_depth ?? 2;
+      const expanded: CommentNode[] = [];
+      for (const comment of response.data) {
+        expanded.push(await this.expandReplies(comment, options, 1, maxDepth));
+      }
+      response.data = expanded;
+    }
+    return response;
+  }
+
+  /**
+   * Iterate comments on a post across pages.
+   * @param postId - Post or comment ID
+   * @param options - Comment query options plus item, page and date limits
+   */
+  iterateComments(
+    postId: string,
+    options: CommentQueryOptions & PaginationLimits & {
+      /** Receives the total count, requested with the first page */
+      onSummary?: (summary: { total_count: number }) => void;
+    } = {}
+  ): AsyncGenerator<CommentNode> {
+    // Graph returns comments oldest first unless asked otherwise, and stopBefore needs newest first
+    if (options.stopBefore && options.order === "chronological") {
+      throw new ValidationError("stopBefore needs comments newest first, not chronological order", {},
+        "Omit order (or set it to reverse_chronological) when stopping at a date.");
+    }
+    const query = options.stopBefore ? { ...options, order: "reverse_chronological" as const } : options;
+    let first = true;
+    return paginate(
+      async (after) => {
+        const summary = first && options.onSummary !== undefined;
+        first = false;
+        const page = await this.getPostComments(postId, options.pageSize ?? 100, after, summary, query);
+        if (summary && page.summary) options.onSummary!(page.summary);
+        return page;
+      },
+      options,
+      (comment) => comment.created_time
+    );
+  }
+
+  /**
+   * Attach every reply (all pages) to a comment, recursing down to maxDepth.
+   * Requests are made one after another to stay within rate limits.
+   */
+  private async expandReplies(
+    comment: CommentNode,
+    options: CommentQueryOptions,
+    depth: number,
+    maxDepth: number
+  ): Promise<CommentNode> {
+    if (depth > maxDepth || comment.comment_count === 0) return comment;
+
+    const replies: CommentNode[] = [];
+    let after: string | undefined;
+    do {
+      const page = await this.client.request<GraphApiCollection<CommentNode>>({
+        method: "GET",
+        endpoint: `${comment.id}/comments`,
+        params: {
+          fields: commentFields(options),
+          limit: 100,
+          after,
+          filter: "toplevel",
+          order: options.order,
+        },
+      });
+      replies.push(...page.data);
+      after = page.paging?.next ? page.paging.cursors?.after : undefined;
+    } while (after);
+
+    const expanded: CommentNode[] = [];
+    for (const reply of replies) {
+      expanded.push(await this.expandReplies(reply, options, depth + 1, maxDepth));
+    }
+    return { ...comment, replies: expanded };
   }
 
   async replyToComment(commentId: string, message: string): Promise<Record<string, unknown>> {
@@ -161,6 +1118,82 @@ export class FacebookManager {
     });
   }
 
+  async setCommentHidden(commentId: string, hidden: boolean): Promise<Record<string, unknown>> {
+    return this.client.request({
+      method: "POST",
+      endpoint: commentId,
+      params: { is_hidden: hidden },
+    });
+  }
+
+  /**
+   * Edit a comment. Only comments authored by the page can be edited.
+   */
+  async editComment(commentId: string, message: string): Promise<Record<string, unknown>> {
+    return this.client.request({
+      method: "POST",
+      endpoint: commentId,
+      params: { message },
+    });
+  }
+
+  async likeComment(commentId: string): Promise<Record<string, unknown>> {
+    return this.client.request({
+      method: "POST",
+      endpoint: `${commentId}/likes`,
+    });
+  }
+
+  async unlikeComment(commentId: string): Promise<Record<string, unknown>> {
+    return this.client.request({
+      method: "DELETE",
+      endpoint: `${commentId}/likes`,
+    });
+  }
+
+  /**
+   * Send a Messenger private reply to the author of a comment.
+   */
+  async sendPrivateReply(commentId: string, message: string): Promise<Record<string, unknown>> {
+    return this.client.request({
+      method: "POST",
+      endpoint: `${this.pageId}/messages`,
+      body: {
+        recipient: { comment_id: commentId },
+        message: { text: message },
+      },
+    });
+  }
+
+  /**
+   * Apply a moderation action to a comment.
+   * @param message - Required for "edit" and "private_reply"
+   */
+  async moderateComment(
+    commentId: string,
+    action: CommentModerationAction,
+    message?: string
+  ): Promise<Record<string, unknown>> {
+    switch (action) {
+      case "hide":
+        return this.setCommentHidden(commentId, true);
+      case "unhide":
+        return this.setCommentHidden(commentId, false);
+      case "like":
+        return this.likeComment(commentId);
+      case "unlike":
+        return this.unlikeComment(commentId);
+      case "edit":
+      case "private_reply":
+        if (!message) {
+          throw new ValidationError(`A message is required for the "${action}" action`, {}, "Pass the text to send as message.");
+        }
+        return action === "edit"
+          ? this.editComment(commentId, message)
+          : this.sendPrivateReply(commentId, message);
+    }
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Insights & Analytics
   // ─────────────────────────────────────────────────────────────────────────
@@ -196,6 +1229,82 @@ export class FacebookManager {
     });
   }
 
+  /**
+   * Page metrics fetched when none are specified
+   */
+  private static readonly DEFAULT_PAGE_METRICS = [
+    "page_follows",
+    "page_impressions_unique",
+    "page_post_engagements",
+    "page_video_views",
+  ] as const;
+
+  /**
+   * Longest since/until span the insights edge accepts in one request
+   */
+  private static readonly MAX_INSIGHTS_RANGE_SECONDS = 93 * 24 * 60 * 60;
+
+  /**
+   * Get page-level insights as a normalized time series.
+   * Ranges longer than the API's maximum window are split into consecutive
+   * requests and the resulting series merged by metric.
+   * @param options - Metrics, aggregation period and date range (default: last 28 days)
+   */
+  async getPageInsights(options: PageInsightsOptions = {}): Promise<PageInsightsResult> {
+    const metrics = options.metrics?.length ? options.metrics : FacebookManager.DEFAULT_PAGE_METRICS;
+    const period = options.period ?? "day";
+    const until = toUnixSeconds(options.until ?? new Date());
+    const since = toUnixSeconds(options.since ?? new Date((until - 28 * 24 * 60 * 60) * 1000));
+
+    if (since >= until) {
+      throw new Error("Page insights 'since' must be before 'until'");
+    }
+
+    const seriesByMetric = new Map<string, PageInsightsSeries>();
+    for (let windowStart = since; windowStart < until; windowStart += FacebookManager.MAX_INSIGHTS_RANGE_SECONDS) {
+      const windowEnd = Math.min(windowStart + FacebookManager.MAX_INSIGHTS_RANGE_SECONDS, until);
+      const response = await this.client.request<GraphApiCollection<RawInsightMetric>>({
+        method: "GET",
+        endpoint: `${this.pageId}/insights`,
+        params: {
+          metric: metrics.join(","),
+          period,
+          since: windowStart,
+          until: windowEnd,
+        },
+      });
+
+      for (const metric of response.data ?? []) {
+        const series = seriesByMetric.get(metric.name) ?? {
+          metric: metric.name,
+          period: metric.period,
+          title: metric.title,
+          description: metric.description,
+          values: [],
+        };
+        series.values.push(...(metric.values ?? []).map((point) => ({
+          end_time: point.end_time,
+          value: point.value,
+        })));
+        seriesByMetric.set(metric.name, series);
+      }
+    }
+
+    // Adjacent windows can both report the boundary day; keep one point per end_time
+    const series = [...seriesByMetric.values()].map((entry) => ({
+      ...entry,
+      values: [...new Map(entry.values.map((point) => [point.end_time, point])).values()]
+        .sort((a, b) => a.end_time.localeCompare(b.end_time)),
+    }));
+
+    return {
+      period,
+      since: new Date(since * 1000).toISOString(),
+      until: new Date(until * 1000).toISOString(),
+      series,
+    };
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Page Information
   // ─────────────────────────────────────────────────────────────────────────
@@ -212,48 +1321,131 @@ export class FacebookManager {
     });
   }
 
+  /**
+   * Diagnose this manager's token: validity, expiry, scopes, reachable pages
+   * and which tools lack permissions. The token itself is never returned.
+   */
+  async checkAccess(): Promise<AccessReport> {
+    const accessToken = await this.requireAccessToken();
+    return new TokenInspector(this.client, { accessToken, pageId: this.pageId }).inspect();
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // Messaging
   // ─────────────────────────────────────────────────────────────────────────
 
   async sendDmToUser(userId: string, message: string): Promise<Record<string, unknown>> {
+    return this.sendMessage(userId, { type: "text", text: message });
+  }
+
+  /**
+   * Send any Messenger content: text, attachments, templates, quick replies or sender actions.
+   * @param userId - Page-scoped user ID of the recipient
+   * @param content - What to send
+   * @param options - Messaging type and tag for messages outside the 24-hour window
+   */
+  async sendMessage(
+    userId: string,
+    content: MessengerContent,
+    options: SendMessageOptions = {}
+  ): Promise<Record<string, unknown>> {
     return this.client.request({
       method: "POST",
-      endpoint: "me/messages",
-      body: {
-        recipient: { id: userId },
-        message: { text: message },
-        messaging_type: "RESPONSE",
-      },
+      endpoint: `${this.pageId}/messages`,
+      body: buildSendApiBody(userId, content, options),
     });
   }
 
-  // ─────────────────────────────────────────────────────────────────────────
-  // Batch Operations
-  // ─────────────────────────────────────────────────────────────────────────
+  /**
+   * List the Page's Messenger conversations, most recently updated first.
+   * @param userId - Only return the conversation with this user
+   */
+  async getConversations(
+    limit = 25,
+    after?: string,
+    userId?: string
+  ): Promise<GraphApiCollection<Conversation>> {
+    return this.client.request({
+      method: "GET",
+      endpoint: `${this.pageId}/conversations`,
+      params: {
+        platform: "messenger",
+        fields: "id,updated_time,unread_count,message_count,snippet,participants",
+        limit,
+        after,
+        user_id: userId,
+      },
+    });
+  }
 
-  async batchRequest(operations: BatchOperation[], includeHeaders = false) {
+  /**
+   * Get messages in a conversation, newest first, including attachments.
+   */
+  async getConversationMessages(
+    conversationId: string,
+    limit = 25,
+    after?: string
+  ): Promise<GraphApiCollection<ConversationMessage>> {
     return this.client.request({
-      method: "POST",
-      endpoint: "",
+      method: "GET",
+      endpoint: `${conversationId}/messages`,
       params: {
-        batch: JSON.stringify(operations.map((operation) => ({
-          method: operation.method,
-          relative_url: operation.relative_url,
-          body: operation.body ? new URLSearchParams(operation.body).toString() : undefined,
-          name: operation.name,
-          omit_response_on_success: operation.omit_response_on_success,
-        }))),
-        include_headers: includeHeaders,
+        fields: "id,created_time,from,to,message,attachments{id,mime_type,name,file_url,image_data,video_data}",
+        limit,
+        after,
       },
     });
   }
-}
 
-type BatchOperation = {
-  method: "GET" | "POST" | "DELETE" | "PATCH";
-  relative_url: string;
-  body?: Record<string, string> | undefined;
-  name?: string | undefined;
-  omit_response_on_success?: boolean | undefined;
-};
+  /**
+   * Check whether the 24-hour standard messaging window is open for a user,
+   * i.e. whether they messaged the Page within the last 24 hours.
+   * Outside the window only MESSAGE_TAG messages can be sent.
+   */
+  async getMessagingWindow(userId: string): Promise<MessagingWindow> {
+    const conversations = await this.getConversations(1, undefined, userId);
+    const conversation = conversations.data[0];
+    if (!conversation) {
+      return { user_id: userId, open: false };
+    }
+
+    // Page replies can bury the user's last message, so page back until the window's start
+    let lastFromUser: ConversationMessage | undefined;
+    const messages = paginate(
+      (after) => this.getConversationMessages(conversation.id, 100, after),
+      { stopBefore: new Date(Date.now() - MESSAGING_WINDOW_MS) },
+      (message) => message.created_time
+    );
+    for await (const message of messages) {
+      if (message.from?.id === userId) {
+        lastFromUser = message;
+        break;
+      }
+    }
+    if (!lastFromUser) {
+      return { user_id: userId, open: false, conversation_id: conversation.id };
+    }
+
+    const expiresAt = new Date(new Date(lastFromUser.created_time).getTime() + MESSAGING_WINDOW_MS);
+    return {
+      user_id: userId,
+      open: expiresAt.getTime() > Date.now(),
+      conversation_id: conversation.id,
+      last_user_message_time: lastFromUser.created_time,
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Batch Operations
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Send operations through the Graph batch endpoint. Lists longer than 50
+   * are split without separating dependent operations, and items that fail
+   * with a transient error are resent on their own.
+   */
+  async batchRequest(operations: BatchOperation[], options: BatchOptions = {}): Promise<BatchResult> {
+    return executeBatch(this.client, operations, options);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Messenger Send API Payloads
+ *
+ * Typed message content and the translation to Send API JSON.
+ */
+
+export type MessagingType = "RESPONSE" | "UPDATE" | "MESSAGE_TAG";
+
+/** Tags allowed outside the 24-hour standard messaging window */
+export type MessageTag = "CONFIRMED_EVENT_UPDATE" | "POST_PURCHASE_UPDATE" | "ACCOUNT_UPDATE" | "HUMAN_AGENT";
+
+export type QuickReply =
+  | { content_type: "text"; title: string; payload: string; image_url?: string }
+  | { content_type: "user_phone_number" | "user_email" };
+
+export type MessengerButton =
+  | { type: "web_url"; title: string; url: string }
+  | { type: "postback"; title: string; payload: string }
+  | { type: "phone_number"; title: string; payload: string };
+
+export interface GenericTemplateElement {
+  title: string;
+  subtitle?: string;
+  image_url?: string;
+  /** URL opened when the element itself is tapped */
+  default_action_url?: string;
+  buttons?: MessengerButton[];
+}
+
+export type MessengerContent =
+  | { type: "text"; text: string; quick_replies?: QuickReply[] }
+  | { type: "image" | "video" | "audio" | "file"; url: string; quick_replies?: QuickReply[] }
+  | { type: "button_template"; text: string; buttons: MessengerButton[] }
+  | { type: "generic_template"; elements: GenericTemplateElement[] }
+  | { type: "sender_action"; action: "typing_on" | "typing_off" | "mark_seen" };
+
+export interface SendMessageOptions {
+  messaging_type?: MessagingType;
+  /** Required when messaging_type is MESSAGE_TAG */
+  tag?: MessageTag;
+}
+
+const templateAttachment = (payload: Record<string, unknown>) => ({
+  attachment: { type: "template", payload },
+});
+
+const buildMessage = (content: Exclude<MessengerContent, { type: "sender_action" }>): Record<string, unknown> => {
+  switch (content.type) {
+    case "text":
+      return { text: content.text, quick_replies: content.quick_replies };
+    case "image":
+    case "video":
+    case "audio":
+    case "file":
+      return {
+        attachment: { type: content.type, payload: { url: content.url, is_reusable: true } },
+        quick_replies: content.quick_replies,
+      };
+    case "button_template":
+      return templateAttachment({ template_type: "button", text: content.text, buttons: content.buttons });
+    case "generic_template":
+      return templateAttachment({
+        template_type: "generic",
+        elements: content.elements.map(({ default_action_url, ...element }) => ({
+          ...element,
+          default_action: default_action_url ? { type: "web_url", url: default_action_url } : undefined,
+        })),
+      });
+  }
+};
+
+/**
+ * Build the Send API request body for a recipient.
+ * @throws Error if a MESSAGE_TAG message has no tag
+ */
+export const buildSendApiBody = (
+  userId: string,
+  content: MessengerContent,
+  options: SendMessageOptions = {},
+): Record<string, unknown> => {
+  const recipient = { id: userId };
+
+  // Sender actions carry no message and no messaging_type
+  if (content.type === "sender_action") {
+    return { recipient, sender_action: content.action };
+  }
+
+  const messagingType = options.messaging_type ?? "RESPONSE";
+  if (messagingType === "MESSAGE_TAG" && !options.tag) {
+    throw new Error("A tag is required when messaging_type is MESSAGE_TAG");
+  }
+
+  return {
+    recipient,
+    message: buildMessage(content),
+    messaging_type: messagingType,
+    tag: messagingType === "MESSAGE_TAG" ? options.tag : undefined,
+  };
+};
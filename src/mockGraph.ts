@@ -0,0 +1,1147 @@
+import type { GraphErrorBody } from "./errors.js";
+import type { BusinessUseCaseUsage, UsageStats } from "./rateLimit.js";
+import type { TokenDebugInfo } from "./tokenInspector.js";
+
+/**
+ * Mock Graph API
+ *
+ * An in-process stand-in for graph.facebook.com and rupload.facebook.com that
+ * replaces fetch. It keeps Pages, posts, photos, videos, comments and
+ * Messenger conversations in memory, answers the edges FacebookManager uses
+ * (including batch and debug_token) the way Graph does, and can inject Graph
+ * errors and usage headers, so offline tests run the same code paths as live
+ * ones without tokens or real posts.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fixtures
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface MockUser {
+  id: string;
+  name: string;
+}
+
+export interface MockPage extends MockUser {
+  access_token: string;
+  category?: string;
+  fan_count?: number;
+  tasks?: string[];
+}
+
+export interface MockPost {
+  id: string;
+  page_id: string;
+  message?: string;
+  link?: string;
+  place?: { id: string; name?: string };
+  /** Unix milliseconds */
+  created_at: number;
+  is_published: boolean;
+  scheduled_publish_time?: number;
+  photo_ids: string[];
+}
+
+export interface MockPhoto {
+  id: string;
+  page_id: string;
+  url: string;
+  caption?: string;
+  alt_text?: string;
+  place?: string;
+  published: boolean;
+  temporary: boolean;
+  post_id?: string;
+}
+
+export interface MockVideo {
+  id: string;
+  page_id: string;
+  kind: "video" | "reel";
+  upload_session_id?: string;
+  file_url?: string;
+  file_size?: number;
+  bytes_received: number;
+  description?: string;
+  title?: string;
+  status: "uploading" | "ready";
+  scheduled_publish_time?: number;
+}
+
+export interface MockComment {
+  id: string;
+  /** Post or comment this comment was left on */
+  parent_id: string;
+  message: string;
+  from: MockUser;
+  created_at: number;
+  is_hidden: boolean;
+  liked_by_page: boolean;
+}
+
+export interface MockMessage {
+  id: string;
+  from: MockUser;
+  to: MockUser;
+  message?: string;
+  attachment_type?: string;
+  created_at: number;
+}
+
+export interface MockConversation {
+  id: string;
+  page_id: string;
+  user: MockUser;
+  /** Oldest first */
+  messages: MockMessage[];
+}
+
+export interface MockGraphState {
+  pages: Map<string, MockPage>;
+  posts: Map<string, MockPost>;
+  photos: Map<string, MockPhoto>;
+  videos: Map<string, MockVideo>;
+  comments: Map<string, MockComment>;
+  conversations: Map<string, MockConversation>;
+  /** debug_token answers, keyed by token */
+  tokens: Map<string, TokenDebugInfo>;
+  /** Lifetime value reported for each post metric */
+  postInsights: Record<string, number>;
+  /** Value reported for each page metric per period */
+  pageInsights: Record<string, number>;
+}
+
+export interface MockGraphOptions {
+  /** Version segment of generated URLs (default: v24.0) */
+  apiVersion?: string;
+  /** Pages the mock User manages (default: two Pages) */
+  pages?: MockPage[];
+  /** The User behind userToken and me/accounts */
+  user?: MockUser & { access_token: string };
+  /** Bytes requested per chunked-upload transfer (default: 1 MiB) */
+  chunkSize?: number;
+  /** Clock for created_time and the messaging window (default: Date.now) */
+  now?: () => number;
+}
+
+/** A request as the mock received it (access tokens removed) */
+export interface MockGraphRequest {
+  method: string;
+  host: string;
+  /** Path without the version segment, e.g. "1000000001/feed" */
+  path: string;
+  params: Record<string, unknown>;
+}
+
+export interface InjectedError {
+  method?: string;
+  /** Exact path or pattern, matched like MockGraphRequest.path */
+  path?: string | RegExp;
+  error: GraphErrorBody;
+  /** HTTP status (default: 500 for transient errors, 400 otherwise) */
+  status?: number;
+  /** How many matching requests fail (default: 1) */
+  times?: number;
+}
+
+/** Usage percentages sent in X-App-Usage, X-Page-Usage and X-Business-Use-Case-Usage */
+export interface MockUsage {
+  app?: UsageStats;
+  page?: UsageStats;
+  business_use_case?: Record<string, BusinessUseCaseUsage[]>;
+}
+
+const ALL_SCOPES = [
+  "pages_show_list",
+  "pages_manage_posts",
+  "pages_read_engagement",
+  "pages_read_user_content",
+  "pages_manage_engagement",
+  "pages_messaging",
+  "read_insights",
+];
+
+const MESSAGING_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_INSIGHTS_RANGE_SECONDS = 93 * 24 * 60 * 60;
+const MAX_BATCH_SIZE = 50;
+
+const defaultPages = (): MockPage[] => [
+  { id: "1000000001", name: "Mock Page", category: "Software", fan_count: 1234, access_token: "mock-page-token-1000000001", tasks: ["MANAGE", "CREATE_CONTENT", "MODERATE", "MESSAGING", "ANALYZE"] },
+  { id: "1000000002", name: "Second Mock Page", category: "Community", fan_count: 56, access_token: "mock-page-token-1000000002", tasks: ["CREATE_CONTENT", "MODERATE"] },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Error answered with a Graph `error` body */
+class GraphFault extends Error {
+  constructor(readonly status: number, readonly body: GraphErrorBody) {
+    super(body.message);
+  }
+}
+
+const fault = (code: number, message: string, extra: Partial<GraphErrorBody> = {}) =>
+  new GraphFault(extra.is_transient || code === 1 || code === 2 ? 500 : 400, {
+    message,
+    type: code === 190 ? "OAuthException" : "GraphMethodException",
+    code,
+    ...extra,
+  });
+
+const unsupported = (method: string, id: string) =>
+  fault(100, `Unsupported ${method.toLowerCase()} request. Object with ID '${id}' does not exist, cannot be loaded due to missing permissions, or does not support this operation.`, { error_subcode: 33 });
+
+const text = (value: unknown) => (value === undefined || value === null || value === "" ? undefined : String(value));
+const num = (value: unknown) => (text(value) === undefined ? undefined : Number(value));
+const isTrue = (value: unknown) => value === true || value === "true" || value === "1";
+const isFalse = (value: unknown) => value === false || value === "false" || value === "0";
+
+/** Parameters sent as query strings arrive as JSON text */
+const json = <T>(value: unknown): T | undefined => {
+  if (typeof value !== "string") return value as T | undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+const graphTime = (ms: number) => new Date(ms).toISOString().replace(/\.\d{3}Z$/, "+0000");
+
+/**
+ * Top-level names of a `fields` list ("id,attachments{type,url}" → id, attachments).
+ */
+const fieldNames = (fields: string) => {
+  const names: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of fields) {
+    if (char === "{") depth++;
+    if (char === "}") depth--;
+    if (char === "," && depth === 0) {
+      names.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  names.push(current);
+  return names.map((name) => name.replace(/[{.].*$/s, "").trim()).filter(Boolean);
+};
+
+const select = (object: Record<string, unknown>, fields: unknown, defaults: string[]) => {
+  const names = typeof fields === "string" && fields ? fieldNames(fields) : defaults;
+  return Object.fromEntries(["id", ...names].filter((name) => object[name] !== undefined).map((name) => [name, object[name]]));
+};
+
+const encodeCursor = (index: number) => Buffer.from(String(index)).toString("base64");
+const decodeCursor = (cursor: unknown) => Number(Buffer.from(String(cursor), "base64").toString()) || 0;
+
+/**
+ * Resolve `{result=name:$.path}` references against earlier batch results.
+ * Arrays expand to comma-separated values, as Graph does.
+ */
+const resolveReferences = (value: string, results: Map<string, unknown>) =>
+  value.replace(/\{result=([^:}]+):\$\.?([^}]*)\}/g, (_match, name: string, path: string) => {
+    const resolve = (node: unknown, keys: string[]): unknown[] => {
+      if (!keys.length) return [node];
+      const [key, ...rest] = keys;
+      if (key === "*") return Array.isArray(node) ? node.flatMap((item) => resolve(item, rest)) : [];
+      return node && typeof node === "object" ? resolve((node as Record<string, unknown>)[key!], rest) : [];
+    };
+    const keys = path.replace(/\[(\w+|\*)\]/g, ".$1").split(".").filter(Boolean);
+    return resolve(results.get(name), keys).filter((item) => item !== undefined).join(",");
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Mock Server
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class MockGraphServer {
+  /** Graph base URL including the version, for FacebookManager and GraphApiClient configs */
+  readonly baseUrl: string;
+  readonly state: MockGraphState;
+  /** Every request received, oldest first */
+  readonly requests: MockGraphRequest[] = [];
+  readonly user: MockUser & { access_token: string };
+  private readonly apiVersion: string;
+  private readonly chunkSize: number;
+  private readonly now: () => number;
+  private readonly injected: (InjectedError & { remaining: number })[] = [];
+  private usage: MockUsage = {};
+  private nextId = 3000000001;
+  private originalFetch: typeof fetch | undefined;
+
+  constructor(options: MockGraphOptions = {}) {
+    this.apiVersion = options.apiVersion ?? "v24.0";
+    this.baseUrl = `https://graph.facebook.com/${this.apiVersion}`;
+    this.chunkSize = options.chunkSize ?? 1024 * 1024;
+    this.now = options.now ?? Date.now;
+    this.user = options.user ?? { id: "9000000001", name: "Mock User", access_token: "mock-user-token" };
+
+    const pages = options.pages ?? defaultPages();
+    const nowSeconds = Math.floor(this.now() / 1000);
+    this.state = {
+      pages: new Map(pages.map((page) => [page.id, page])),
+      posts: new Map(),
+      photos: new Map(),
+      videos: new Map(),
+      comments: new Map(),
+      conversations: new Map(),
+      tokens: new Map<string, TokenDebugInfo>([
+        [this.user.access_token, {
+          is_valid: true,
+          type: "USER",
+          app_id: "8000000001",
+          application: "Mock App",
+          user_id: this.user.id,
+          expires_at: nowSeconds + 60 * 24 * 60 * 60,
+          data_access_expires_at: nowSeconds + 90 * 24 * 60 * 60,
+          scopes: ALL_SCOPES,
+        }],
+        ...pages.map((page) => [page.access_token, {
+          is_valid: true,
+          type: "PAGE",
+          app_id: "8000000001",
+          application: "Mock App",
+          user_id: this.user.id,
+          profile_id: page.id,
+          expires_at: 0,
+          data_access_expires_at: nowSeconds + 90 * 24 * 60 * 60,
+          scopes: ALL_SCOPES,
+        }] as [string, TokenDebugInfo]),
+      ]),
+      postInsights: {},
+      pageInsights: {},
+    };
+  }
+
+  /**
+   * Answer fetch calls to Graph hosts from this mock; other URLs still reach
+   * the network. Binary uploads use the global fetch, so they need this;
+   * ThrottledGraphClients can take `fetch: this.fetch` instead.
+   * @returns Function restoring the previous fetch
+   */
+  install(): () => void {
+    if (!this.originalFetch) {
+      const original = globalThis.fetch;
+      this.originalFetch = original;
+      globalThis.fetch = (input, init) => {
+        const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+        return /^https:\/\/(graph|rupload)\.facebook\.com\//.test(url) ? this.fetch(input, init) : original(input, init);
+      };
+    }
+    return () => this.uninstall();
+  }
+
+  uninstall(): void {
+    if (this.originalFetch) globalThis.fetch = this.originalFetch;
+    this.originalFetch = undefined;
+  }
+
+  /**
+   * Answer one request the way Graph would; usable directly as a fetch implementation.
+   */
+  readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const { params, bytes } = await readParams(request, url);
+    const token = text(params.access_token) ?? /^(?:Bearer|OAuth) (.+)$/.exec(request.headers.get("authorization") ?? "")?.[1];
+    delete params.access_token;
+
+    try {
+      const body = url.hostname.startsWith("rupload")
+        ? this.rupload(url, request.headers, bytes)
+        : this.dispatch(request.method, versionless(url.pathname), params, token, url.hostname);
+      return this.respond(200, body);
+    } catch (error) {
+      if (!(error instanceof GraphFault)) throw error;
+      return this.respond(error.status, { error: { ...error.body, fbtrace_id: `MockTrace${this.requests.length}` } });
+    }
+  };
+
+  /**
+   * Fail the next matching request(s) with a Graph error.
+   */
+  failNext(injection: InjectedError): void {
+    this.injected.push({ ...injection, remaining: injection.times ?? 1 });
+  }
+
+  /**
+   * Usage headers sent with every response from now on.
+   */
+  setUsage(usage: MockUsage): void {
+    this.usage = usage;
+  }
+
+  /** Requests for a path, optionally filtered by method */
+  requestsTo(path: string | RegExp, method?: string): MockGraphRequest[] {
+    return this.requests.filter((request) =>
+      (typeof path === "string" ? request.path === path : path.test(request.path))
+      && (!method || request.method === method));
+  }
+
+  pageToken(pageId: string): string {
+    const page = this.state.pages.get(pageId);
+    if (!page) throw new Error(`Mock page ${pageId} does not exist`);
+    return page.access_token;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Seeding
+  // ───────────────────────────────────────────────────────────────────────
+
+  addPost(pageId: string, fields: Partial<Omit<MockPost, "id" | "page_id">> = {}): MockPost {
+    const post: MockPost = {
+      id: `${pageId}_${this.newId()}`,
+      page_id: pageId,
+      created_at: this.now(),
+      is_published: true,
+      photo_ids: [],
+      ...fields,
+    };
+    this.state.posts.set(post.id, post);
+    return post;
+  }
+
+  /**
+   * @param parentId - Post or comment the comment is left on
+   */
+  addComment(parentId: string, fields: Partial<Omit<MockComment, "id" | "parent_id">> = {}): MockComment {
+    const root = parentId.split("_").pop()!;
+    const comment: MockComment = {
+      id: `${root}_${this.newId()}`,
+      parent_id: parentId,
+      message: "Mock comment",
+      from: { id: "5000000001", name: "Mock Commenter" },
+      created_at: this.now(),
+      is_hidden: false,
+      liked_by_page: false,
+      ...fields,
+    };
+    this.state.comments.set(comment.id, comment);
+    return comment;
+  }
+
+  /**
+   * Start a Messenger conversation with messages sent by the user.
+   */
+  addConversation(pageId: string, user: MockUser, messages: { text: string; created_at?: number }[] = []): MockConversation {
+    const page = this.requirePage(pageId);
+    const conversation: MockConversation = {
+      id: `t_${this.newId()}`,
+      page_id: pageId,
+      user,
+      messages: messages.map((message) => ({
+        id: `m_${this.newId()}`,
+        from: user,
+        to: { id: page.id, name: page.name },
+        message: message.text,
+        created_at: message.created_at ?? this.now(),
+      })),
+    };
+    this.state.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Routing
+  // ───────────────────────────────────────────────────────────────────────
+
+  private dispatch(method: string, path: string, params: Record<string, unknown>, token: string | undefined, host = "graph.facebook.com"): unknown {
+    this.requests.push({ method, host, path, params });
+    this.throwInjected(method, path);
+
+    const [id = "", edge, ...rest] = path.split("/");
+    if (rest.length) throw unsupported(method, path);
+
+    if (!id && method === "POST" && params.batch !== undefined) return this.batch(params, token);
+    if (id === "debug_token" && method === "GET") return this.debugToken(params);
+    if (id === "me") return this.me(method, edge, params, token);
+
+    const page = this.state.pages.get(id);
+    if (page) return edge ? this.pageEdge(method, page, edge, params) : this.pageNode(method, page, params);
+    if (edge) return this.objectEdge(method, id, edge, params);
+    return this.objectNode(method, id, params);
+  }
+
+  private throwInjected(method: string, path: string): void {
+    const index = this.injected.findIndex((injection) =>
+      (!injection.method || injection.method === method)
+      && (injection.path === undefined || (typeof injection.path === "string" ? injection.path === path : injection.path.test(path))));
+    const injection = this.injected[index];
+    if (!injection) return;
+
+    if (--injection.remaining <= 0) this.injected.splice(index, 1);
+    const error = fault(injection.error.code ?? 1, injection.error.message ?? "An unknown error occurred", injection.error);
+    throw injection.status ? new GraphFault(injection.status, error.body) : error;
+  }
+
+  private respond(status: number, body: unknown): Response {
+    const headers = new Headers({ "content-type": "application/json" });
+    if (this.usage.app) headers.set("x-app-usage", JSON.stringify(this.usage.app));
+    if (this.usage.page) headers.set("x-page-usage", JSON.stringify(this.usage.page));
+    if (this.usage.business_use_case) headers.set("x-business-use-case-usage", JSON.stringify(this.usage.business_use_case));
+    return new Response(JSON.stringify(body), { status, headers });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Tokens and Accounts
+  // ───────────────────────────────────────────────────────────────────────
+
+  private debugToken(params: Record<string, unknown>) {
+    const info = this.state.tokens.get(text(params.input_token) ?? "");
+    return {
+      data: info ?? { is_valid: false, error: { code: 190, message: "Invalid OAuth access token." } },
+    };
+  }
+
+  private me(method: string, edge: string | undefined, params: Record<string, unknown>, token: string | undefined) {
+    const page = [...this.state.pages.values()].find((candidate) => candidate.access_token === token);
+    if (edge === "messages" && method === "POST") {
+      return this.sendMessage(page ?? this.state.pages.values().next().value!, params);
+    }
+    if (edge === "accounts" && method === "GET") {
+      const pages = [...this.state.pages.values()].map((account) => ({ ...account }));
+      return this.list(pages.map((account) => select(account, params.fields, ["name", "access_token", "category", "tasks"])), params, "me/accounts");
+    }
+    if (!edge && method === "GET") return select({ ...(page ?? this.user) }, params.fields, ["name"]);
+    throw unsupported(method, edge ? `me/${edge}` : "me");
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Pages
+  // ───────────────────────────────────────────────────────────────────────
+
+  private pageNode(method: string, page: MockPage, params: Record<string, unknown>) {
+    if (method !== "GET") throw unsupported(method, page.id);
+    const { access_token: _token, ...fields } = page;
+    return select(fields, params.fields, ["name"]);
+  }
+
+  private pageEdge(method: string, page: MockPage, edge: string, params: Record<string, unknown>): unknown {
+    switch (`${method} ${edge}`) {
+      case "POST feed":
+        return this.createPost(page, params);
+      case "POST photos":
+        return this.createPhoto(page, params);
+      case "POST videos":
+        return this.videoUpload(page, params);
+      case "POST video_reels":
+        return this.reelUpload(page, params);
+      case "GET posts":
+      case "GET feed":
+        return this.listPosts(page, params, (post) => post.is_published, `${page.id}/${edge}`);
+      case "GET scheduled_posts":
+        return this.listPosts(page, params, (post) => !post.is_published && post.scheduled_publish_time !== undefined, `${page.id}/${edge}`);
+      case "GET insights":
+        return this.pageInsights(params);
+      case "GET conversations":
+        return this.listConversations(page, params);
+      case "POST messages":
+        return this.sendMessage(page, params);
+      default:
+        throw unsupported(method, `${page.id}/${edge}`);
+    }
+  }
+
+  private checkSchedule(params: Record<string, unknown>): number | undefined {
+    const scheduled = num(params.scheduled_publish_time);
+    if (scheduled === undefined) return undefined;
+    if (!isFalse(params.published)) {
+      throw fault(100, "(#100) Cannot specify a scheduled publish time on a published post");
+    }
+    const lead = scheduled - Math.floor(this.now() / 1000);
+    if (lead < 10 * 60 || lead > 75 * 24 * 60 * 60) {
+      throw fault(100, "(#100) The specified scheduled publish time is invalid.");
+    }
+    return scheduled;
+  }
+
+  private createPost(page: MockPage, params: Record<string, unknown>) {
+    const scheduled = this.checkSchedule(params);
+    const attached = json<{ media_fbid: string }[]>(params.attached_media) ?? [];
+    const photoIds = attached.map(({ media_fbid: photoId }) => {
+      const photo = this.state.photos.get(photoId);
+      if (!photo || photo.page_id !== page.id || photo.published) {
+        throw fault(100, `(#100) param attached_media must be unpublished photos of this Page (${photoId})`);
+      }
+      if (scheduled !== undefined && !photo.temporary) {
+        throw fault(100, "(#100) Photos attached to a scheduled post must be uploaded with temporary=true");
+      }
+      return photoId;
+    });
+    if (!text(params.message) && !text(params.link) && !photoIds.length) {
+      throw fault(100, "(#100) Missing message or attachment");
+    }
+
+    const post = this.addPost(page.id, {
+      message: text(params.message),
+      link: text(params.link),
+      place: text(params.place) ? { id: text(params.place)! } : undefined,
+      is_published: scheduled === undefined && !isFalse(params.published),
+      scheduled_publish_time: scheduled,
+      photo_ids: photoIds,
+    });
+    for (const photoId of photoIds) this.state.photos.get(photoId)!.post_id = post.id;
+    return { id: post.id };
+  }
+
+  private createPhoto(page: MockPage, params: Record<string, unknown>) {
+    const url = text(params.url);
+    if (!url) throw fault(324, "(#324) Requires upload file");
+    const scheduled = this.checkSchedule(params);
+    const published = scheduled === undefined && !isFalse(params.published);
+
+    const photo: MockPhoto = {
+      id: this.newId(),
+      page_id: page.id,
+      url,
+      caption: text(params.caption),
+      alt_text: text(params.alt_text_custom),
+      place: text(params.place),
+      published,
+      temporary: isTrue(params.temporary),
+    };
+    this.state.photos.set(photo.id, photo);
+
+    // Unpublished photos wait to be attached to a post; scheduled ones get a scheduled post
+    if (!published && scheduled === undefined) return { id: photo.id };
+    const post = this.addPost(page.id, {
+      message: photo.caption,
+      place: photo.place ? { id: photo.place } : undefined,
+      is_published: published,
+      scheduled_publish_time: scheduled,
+      photo_ids: [photo.id],
+    });
+    photo.post_id = post.id;
+    return published ? { id: photo.id, post_id: post.id } : { id: photo.id };
+  }
+
+  private listPosts(page: MockPage, params: Record<string, unknown>, include: (post: MockPost) => boolean, path: string) {
+    const posts = [...this.state.posts.values()]
+      .filter((post) => post.page_id === page.id && include(post))
+      .sort((a, b) => b.created_at - a.created_at);
+    return this.list(posts.map((post) => select(this.postView(post), params.fields, ["message", "created_time"])), params, path);
+  }
+
+  private postView(post: MockPost): Record<string, unknown> {
+    const photos = post.photo_ids.map((id) => this.state.photos.get(id)).filter((photo): photo is MockPhoto => Boolean(photo));
+    const photoAttachment = (photo: MockPhoto) => ({
+      type: "photo",
+      media_type: "photo",
+      url: `https://www.facebook.com/photo.php?fbid=${photo.id}`,
+      media: { image: { src: photo.url, width: 720, height: 720 } },
+    });
+    const attachments = photos.length > 1
+      ? [{ type: "album", media_type: "album", subattachments: { data: photos.map(photoAttachment) } }]
+      : photos.length === 1
+        ? [photoAttachment(photos[0]!)]
+        : post.link ? [{ type: "share", media_type: "link", url: post.link }] : [];
+
+    return {
+      id: post.id,
+      message: post.message,
+      link: post.link,
+      place: post.place,
+      created_time: graphTime(post.created_at),
+      is_published: post.is_published,
+      scheduled_publish_time: post.scheduled_publish_time,
+      permalink_url: `https://www.facebook.com/${post.page_id}/posts/${post.id.split("_")[1]}`,
+      attachments: attachments.length ? { data: attachments } : undefined,
+    };
+  }
+
+  private pageInsights(params: Record<string, unknown>) {
+    const since = num(params.since) ?? Math.floor(this.now() / 1000) - 28 * 24 * 60 * 60;
+    const until = num(params.until) ?? Math.floor(this.now() / 1000);
+    if (until - since > MAX_INSIGHTS_RANGE_SECONDS) {
+      throw fault(100, `(#100) There cannot be more than 93 days (${MAX_INSIGHTS_RANGE_SECONDS} s) between since and until`);
+    }
+    const period = text(params.period) ?? "day";
+    const day = 24 * 60 * 60;
+    const endTimes: string[] = [];
+    for (let end = Math.ceil(since / day) * day + day; end <= until + day; end += day) {
+      endTimes.push(graphTime(end * 1000));
+    }
+    const metrics = (text(params.metric) ?? "").split(",").filter(Boolean);
+    return {
+      data: metrics.map((metric) => ({
+        id: `page/insights/${metric}/${period}`,
+        name: metric,
+        period,
+        title: metric,
+        description: `Mock ${metric}`,
+        values: endTimes.map((endTime) => ({ end_time: endTime, value: this.state.pageInsights[metric] ?? 0 })),
+      })),
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Video Uploads
+  // ───────────────────────────────────────────────────────────────────────
+
+  private videoUpload(page: MockPage, params: Record<string, unknown>) {
+    const phase = text(params.upload_phase);
+    if (!phase) {
+      const fileUrl = text(params.file_url);
+      if (!fileUrl) throw fault(100, "(#100) Either file_url or upload_phase must be provided");
+      const video = this.addVideo(page, "video", { file_url: fileUrl, status: "ready", description: text(params.description), title: text(params.title) });
+      return { id: video.id };
+    }
+
+    if (phase === "start") {
+      const fileSize = num(params.file_size);
+      if (!fileSize) throw fault(100, "(#100) file_size is required for upload_phase=start");
+      const video = this.addVideo(page, "video", { file_size: fileSize });
+      video.upload_session_id = `us_${video.id}`;
+      return {
+        video_id: video.id,
+        upload_session_id: video.upload_session_id,
+        start_offset: "0",
+        end_offset: String(Math.min(this.chunkSize, fileSize)),
+      };
+    }
+
+    const video = [...this.state.videos.values()].find((candidate) => candidate.upload_session_id === text(params.upload_session_id));
+    if (!video) throw fault(100, "(#100) Invalid upload_session_id");
+
+    if (phase === "transfer") {
+      const chunk = params.video_file_chunk;
+      if (num(params.start_offset) !== video.bytes_received || !(chunk instanceof Blob)) {
+        throw fault(6001, "(#6001) There was a problem uploading your video file. Please try again.", { error_subcode: 1363019 });
+      }
+      video.bytes_received += chunk.size;
+      return {
+        start_offset: String(video.bytes_received),
+        end_offset: String(Math.min(video.bytes_received + this.chunkSize, video.file_size!)),
+      };
+    }
+
+    if (phase === "finish") {
+      if (video.bytes_received !== video.file_size) {
+        throw fault(6001, "(#6001) The video file is incomplete; transfer every chunk before finishing.", { error_subcode: 1363030 });
+      }
+      Object.assign(video, { status: "ready", description: text(params.description), title: text(params.title) });
+      return { success: true };
+    }
+    throw fault(100, `(#100) Invalid upload_phase ${phase}`);
+  }
+
+  private reelUpload(page: MockPage, params: Record<string, unknown>) {
+    const phase = text(params.upload_phase);
+    if (phase === "start") {
+      const video = this.addVideo(page, "reel", {});
+      return { video_id: video.id, upload_url: `https://rupload.facebook.com/video-upload/${this.apiVersion}/${video.id}` };
+    }
+
+    const video = this.state.videos.get(text(params.video_id) ?? "");
+    if (phase !== "finish" || !video || video.kind !== "reel") {
+      throw fault(100, "(#100) Invalid parameter");
+    }
+    if (!video.file_url && video.bytes_received === 0) {
+      throw fault(6000, "(#6000) There was a problem uploading your video file. Please try again.");
+    }
+    const scheduled = text(params.video_state) === "SCHEDULED" ? num(params.scheduled_publish_time) : undefined;
+    if (text(params.video_state) === "SCHEDULED" && scheduled === undefined) {
+      throw fault(100, "(#100) scheduled_publish_time is required when video_state is SCHEDULED");
+    }
+    Object.assign(video, { status: "ready", description: text(params.description), scheduled_publish_time: scheduled });
+    return { success: true };
+  }
+
+  /**
+   * Binary transfer for Reels: bytes in the body or a hosted file_url header.
+   */
+  private rupload(url: URL, headers: Headers, bytes: number) {
+    const videoId = url.pathname.split("/").pop() ?? "";
+    this.requests.push({ method: "POST", host: url.hostname, path: url.pathname.replace(/^\/+/, ""), params: { file_url: headers.get("file_url") ?? undefined, bytes } });
+    this.throwInjected("POST", url.pathname.replace(/^\/+/, ""));
+
+    const video = this.state.videos.get(videoId);
+    if (!video) return { success: false, debug_info: { message: `Unknown video ${videoId}` } };
+    const fileUrl = headers.get("file_url");
+    if (fileUrl) video.file_url = fileUrl;
+    else video.bytes_received = bytes;
+    video.file_size = fileUrl ? undefined : Number(headers.get("file_size") ?? bytes);
+    return { success: true };
+  }
+
+  private addVideo(page: MockPage, kind: MockVideo["kind"], fields: Partial<MockVideo>): MockVideo {
+    const video: MockVideo = { id: this.newId(), page_id: page.id, kind, bytes_received: 0, status: "uploading", ...fields };
+    this.state.videos.set(video.id, video);
+    return video;
+  }
+
+  private videoView(video: MockVideo): Record<string, unknown> {
+    const ready = video.status === "ready";
+    // Scheduled videos stay unpublished, and not ready, until their publish time
+    const published = ready && !video.scheduled_publish_time;
+    const phase = (done: boolean) => ({ status: done ? "complete" : "not_started" });
+    return {
+      id: video.id,
+      title: video.title,
+      description: video.description,
+      status: {
+        video_status: published ? "ready" : ready ? "processing" : "upload_complete",
+        uploading_phase: phase(ready || video.bytes_received > 0 || Boolean(video.file_url)),
+        processing_phase: phase(ready),
+        publishing_phase: { ...phase(published), publish_status: video.scheduled_publish_time ? "scheduled" : "published" },
+      },
+      permalink_url: video.kind === "reel" ? `/reel/${video.id}/` : `/${video.page_id}/videos/${video.id}/`,
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Objects (posts, photos, videos, comments, conversations)
+  // ───────────────────────────────────────────────────────────────────────
+
+  private objectNode(method: string, id: string, params: Record<string, unknown>) {
+    const post = this.state.posts.get(id);
+    const comment = this.state.comments.get(id);
+    const photo = this.state.photos.get(id);
+    const video = this.state.videos.get(id);
+
+    if (method === "GET") {
+      if (post) return select(this.postView(post), params.fields, ["message", "created_time"]);
+      if (comment) return select(this.commentView(comment), params.fields, ["message", "from", "created_time"]);
+      if (photo) return select({ id: photo.id, name: photo.caption, alt_text_custom: photo.alt_text, link: photo.url, page_story_id: photo.post_id }, params.fields, ["name"]);
+      if (video) return select(this.videoView(video), params.fields, ["description"]);
+      throw unsupported(method, id);
+    }
+
+    if (method === "DELETE") {
+      if (post) {
+        this.state.posts.delete(id);
+        this.deleteThread(id);
+      } else if (comment) {
+        this.state.comments.delete(id);
+        this.deleteThread(id);
+      } else if (photo) {
+        this.state.photos.delete(id);
+      } else if (video) {
+        this.state.videos.delete(id);
+      } else {
+        throw unsupported(method, id);
+      }
+      return { success: true };
+    }
+
+    if (method === "POST" && post) return this.updatePost(post, params);
+    if (method === "POST" && comment) return this.updateComment(comment, params);
+    throw unsupported(method, id);
+  }
+
+  private updatePost(post: MockPost, params: Record<string, unknown>) {
+    if (isTrue(params.is_published)) {
+      if (post.is_published) throw fault(100, "(#100) The post is already published");
+      Object.assign(post, { is_published: true, scheduled_publish_time: undefined, created_at: this.now() });
+    }
+    const scheduled = num(params.scheduled_publish_time);
+    if (scheduled !== undefined) {
+      if (post.is_published) throw fault(100, "(#100) Cannot specify a scheduled publish time on a published post");
+      this.checkSchedule({ scheduled_publish_time: scheduled, published: false });
+      post.scheduled_publish_time = scheduled;
+    }
+    if (params.message !== undefined) post.message = text(params.message);
+    return { success: true };
+  }
+
+  private updateComment(comment: MockComment, params: Record<string, unknown>) {
+    if (params.is_hidden !== undefined) comment.is_hidden = isTrue(params.is_hidden);
+    if (params.message !== undefined) {
+      if (!this.state.pages.has(comment.from.id)) {
+        throw fault(200, "(#200) Only the author of a comment can edit it");
+      }
+      comment.message = text(params.message) ?? "";
+    }
+    return { success: true };
+  }
+
+  private objectEdge(method: string, id: string, edge: string, params: Record<string, unknown>): unknown {
+    const parent = this.state.posts.get(id) ?? this.state.comments.get(id);
+
+    if (edge === "comments" && parent) {
+      if (method === "GET") return this.listComments(id, params);
+      if (method === "POST") {
+        const message = text(params.message);
+        if (!message) throw fault(100, "(#100) Missing message or attachment");
+        const page = this.state.pages.get(this.pageOf(id)) ?? this.state.pages.values().next().value!;
+        return { id: this.addComment(id, { message, from: { id: page.id, name: page.name } }).id };
+      }
+    }
+
+    const comment = this.state.comments.get(id);
+    if (edge === "likes" && comment && (method === "POST" || method === "DELETE")) {
+      comment.liked_by_page = method === "POST";
+      return { success: true };
+    }
+
+    const post = this.state.posts.get(id);
+    if (edge === "insights" && post && method === "GET") {
+      const metrics = (text(params.metric) ?? "").split(",").filter(Boolean);
+      return {
+        data: metrics.map((metric) => {
+          if (!/^post_/.test(metric)) throw fault(100, "(#100) The value must be a valid insights metric");
+          return {
+            id: `${id}/insights/${metric}/lifetime`,
+            name: metric,
+            period: "lifetime",
+            title: metric,
+            description: `Mock ${metric}`,
+            values: [{ value: this.state.postInsights[metric] ?? 0 }],
+          };
+        }),
+      };
+    }
+
+    const conversation = this.state.conversations.get(id);
+    if (edge === "messages" && conversation && method === "GET") {
+      const messages = [...conversation.messages].reverse().map((message) => select({
+        id: message.id,
+        created_time: graphTime(message.created_at),
+        from: message.from,
+        to: { data: [message.to] },
+        message: message.message ?? "",
+        attachments: message.attachment_type ? { data: [{ id: `${message.id}_a`, mime_type: `${message.attachment_type}/*` }] } : undefined,
+      }, params.fields, ["created_time"]));
+      return this.list(messages, params, `${id}/messages`);
+    }
+
+    throw unsupported(method, `${id}/${edge}`);
+  }
+
+  private listComments(parentId: string, params: Record<string, unknown>) {
+    const stream = text(params.filter) === "stream";
+    const descendants = (id: string): MockComment[] => [...this.state.comments.values()]
+      .filter((comment) => comment.parent_id === id)
+      .flatMap((comment) => (stream ? [comment, ...descendants(comment.id)] : [comment]));
+
+    const comments = descendants(parentId).sort((a, b) => a.created_at - b.created_at);
+    if (text(params.order) === "reverse_chronological") comments.reverse();
+
+    const result = this.list(comments.map((comment) => select(this.commentView(comment), params.fields, ["message", "from", "created_time"])), params, `${parentId}/comments`);
+    return isTrue(params.summary)
+      ? { ...result, summary: { order: text(params.order) ?? "chronological", total_count: comments.length, can_comment: true } }
+      : result;
+  }
+
+  private commentView(comment: MockComment): Record<string, unknown> {
+    const parent = this.state.comments.get(comment.parent_id);
+    return {
+      id: comment.id,
+      message: comment.message,
+      from: comment.from,
+      created_time: graphTime(comment.created_at),
+      is_hidden: comment.is_hidden,
+      like_count: comment.liked_by_page ? 1 : 0,
+      comment_count: [...this.state.comments.values()].filter((reply) => reply.parent_id === comment.id).length,
+      parent: parent ? { id: parent.id } : undefined,
+      permalink_url: `https://www.facebook.com/${this.pageOf(comment.id)}/posts/${comment.id.split("_")[0]}?comment_id=${comment.id.split("_")[1]}`,
+    };
+  }
+
+  private deleteThread(parentId: string): void {
+    for (const comment of [...this.state.comments.values()]) {
+      if (comment.parent_id !== parentId) continue;
+      this.state.comments.delete(comment.id);
+      this.deleteThread(comment.id);
+    }
+  }
+
+  /** Page owning a post or comment */
+  private pageOf(objectId: string): string {
+    const comment = this.state.comments.get(objectId);
+    if (comment) return this.pageOf(comment.parent_id);
+    return this.state.posts.get(objectId)?.page_id ?? objectId.split("_")[0]!;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Messenger
+  // ───────────────────────────────────────────────────────────────────────
+
+  private listConversations(page: MockPage, params: Record<string, unknown>) {
+    const userId = text(params.user_id);
+    const conversations = [...this.state.conversations.values()]
+      .filter((conversation) => conversation.page_id === page.id && (!userId || conversation.user.id === userId))
+      .sort((a, b) => (b.messages.at(-1)?.created_at ?? 0) - (a.messages.at(-1)?.created_at ?? 0));
+
+    return this.list(conversations.map((conversation) => select({
+      id: conversation.id,
+      updated_time: graphTime(conversation.messages.at(-1)?.created_at ?? 0),
+      unread_count: 0,
+      message_count: conversation.messages.length,
+      snippet: conversation.messages.at(-1)?.message ?? "",
+      participants: { data: [conversation.user, { id: page.id, name: page.name }] },
+    }, params.fields, ["updated_time"])), params, `${page.id}/conversations`);
+  }
+
+  private sendMessage(page: MockPage, params: Record<string, unknown>) {
+    const recipient = json<{ id?: string; comment_id?: string }>(params.recipient) ?? {};
+    const message = json<{ text?: string; attachment?: { type?: string } }>(params.message);
+
+    let conversation: MockConversation | undefined;
+    if (recipient.comment_id) {
+      // Private replies open a conversation with the commenter, once per comment
+      const comment = this.state.comments.get(recipient.comment_id);
+      if (!comment) throw unsupported("POST", recipient.comment_id);
+      conversation = [...this.state.conversations.values()].find((candidate) => candidate.page_id === page.id && candidate.user.id === comment.from.id)
+        ?? this.addConversation(page.id, comment.from);
+    } else {
+      conversation = [...this.state.conversations.values()].find((candidate) => candidate.page_id === page.id && candidate.user.id === recipient.id);
+      if (!conversation) throw fault(100, "(#100) No matching user found", { error_subcode: 2018001 });
+
+      const messagingType = text(params.messaging_type) ?? "RESPONSE";
+      if (messagingType === "MESSAGE_TAG" && !text(params.tag)) {
+        throw fault(100, "(#100) Param tag must be set for MESSAGE_TAG messages");
+      }
+      const lastFromUser = conversation.messages.filter((candidate) => candidate.from.id === recipient.id).at(-1);
+      const windowOpen = lastFromUser !== undefined && lastFromUser.created_at + MESSAGING_WINDOW_MS > this.now();
+      if (messagingType !== "MESSAGE_TAG" && !windowOpen) {
+        throw fault(10, "(#10) This message is sent outside of allowed window.", { error_subcode: 2018278 });
+      }
+    }
+
+    if (params.sender_action !== undefined) return { recipient_id: conversation.user.id };
+    if (!message?.text && !message?.attachment) throw fault(100, "(#100) Param message must be non-empty");
+
+    const sent: MockMessage = {
+      id: `m_${this.newId()}`,
+      from: { id: page.id, name: page.name },
+      to: conversation.user,
+      message: message.text,
+      attachment_type: message.attachment?.type,
+      created_at: this.now(),
+    };
+    conversation.messages.push(sent);
+    return { recipient_id: conversation.user.id, message_id: sent.id };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Batch
+  // ───────────────────────────────────────────────────────────────────────
+
+  /**
+   * Run each operation through the same routes. Operations whose dependency
+   * failed are not run and come back as null, like Graph.
+   */
+  private batch(params: Record<string, unknown>, token: string | undefined) {
+    const operations = json<{
+      method: string;
+      relative_url: string;
+      body?: string;
+      name?: string;
+      depends_on?: string;
+      omit_response_on_success?: boolean;
+    }[]>(params.batch);
+    if (!Array.isArray(operations)) throw fault(100, "(#100) The parameter batch must be a JSON array");
+    if (operations.length > MAX_BATCH_SIZE) {
+      throw fault(100, `(#100) Too many requests in batch message. Maximum batch size is ${MAX_BATCH_SIZE}`);
+    }
+
+    const includeHeaders = !isFalse(params.include_headers);
+    const results = new Map<string, unknown>();
+    const failed = new Set<string>();
+    const referenced = new Set(operations.flatMap((operation) => [
+      ...[...`${operation.relative_url} ${operation.body ?? ""}`.matchAll(/\{result=([^:}]+):/g)].map((match) => match[1]!),
+      ...(operation.depends_on ? [operation.depends_on] : []),
+    ]));
+
+    return operations.map((operation) => {
+      const dependencies = [
+        ...(operation.depends_on ? [operation.depends_on] : []),
+        ...[...`${operation.relative_url} ${operation.body ?? ""}`.matchAll(/\{result=([^:}]+):/g)].map((match) => match[1]!),
+      ];
+      if (dependencies.some((name) => failed.has(name) || !results.has(name))) {
+        if (operation.name) failed.add(operation.name);
+        return null;
+      }
+
+      const url = new URL(resolveReferences(operation.relative_url, results).replace(/^\/+/, ""), `${this.baseUrl}/`);
+      const itemParams: Record<string, unknown> = {
+        ...Object.fromEntries(url.searchParams),
+        ...Object.fromEntries(new URLSearchParams(resolveReferences(operation.body ?? "", results))),
+      };
+      delete itemParams.access_token;
+
+      let code = 200;
+      let body: unknown;
+      try {
+        body = this.dispatch(operation.method, versionless(url.pathname), itemParams, token);
+        if (operation.name) results.set(operation.name, body);
+      } catch (error) {
+        if (!(error instanceof GraphFault)) throw error;
+        code = error.status;
+        body = { error: { ...error.body, fbtrace_id: `MockTrace${this.requests.length}` } };
+        if (operation.name) failed.add(operation.name);
+      }
+
+      const omit = operation.omit_response_on_success ?? (operation.name !== undefined && referenced.has(operation.name));
+      if (code === 200 && omit) return null;
+      return {
+        code,
+        ...(includeHeaders ? { headers: [{ name: "Content-Type", value: "application/json; charset=UTF-8" }] } : {}),
+        body: JSON.stringify(body),
+      };
+    });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────
+  // Utilities
+  // ───────────────────────────────────────────────────────────────────────
+
+  /**
+   * Cursor-paginated collection; `next` is present while items remain.
+   */
+  private list<T>(items: T[], params: Record<string, unknown>, path: string) {
+    const limit = num(params.limit) ?? 25;
+    const start = params.after !== undefined ? decodeCursor(params.after) : 0;
+    const data = items.slice(start, start + limit);
+    const end = start + data.length;
+    if (!data.length) return { data };
+
+    const after = encodeCursor(end);
+    return {
+      data,
+      paging: {
+        cursors: { before: encodeCursor(start), after },
+        ...(end < items.length ? { next: `${this.baseUrl}/${path}?limit=${limit}&after=${after}` } : {}),
+      },
+    };
+  }
+
+  private requirePage(pageId: string): MockPage {
+    const page = this.state.pages.get(pageId);
+    if (!page) throw new Error(`Mock page ${pageId} does not exist`);
+    return page;
+  }
+
+  private newId(): string {
+    return String(this.nextId++);
+  }
+}
+
+const versionless = (pathname: string) =>
+  pathname.replace(/^\/+/, "").replace(/^v\d+\.\d+(\/|$)/, "").replace(/\/+$/, "");
+
+/**
+ * Merge query, JSON, form and multipart parameters. Raw bodies (binary
+ * uploads) are only measured.
+ */
+const readParams = async (request: Request, url: URL): Promise<{ params: Record<string, unknown>; bytes: number }> => {
+  const params: Record<string, unknown> = Object.fromEntries(url.searchParams);
+  const type = request.headers.get("content-type") ?? "";
+  if (!request.body) return { params, bytes: 0 };
+
+  if (type.includes("application/json")) {
+    Object.assign(params, await request.json());
+  } else if (type.includes("application/x-www-form-urlencoded")) {
+    Object.assign(params, Object.fromEntries(new URLSearchParams(await request.text())));
+  } else if (type.includes("multipart/form-data")) {
+    for (const [key, value] of await request.formData()) params[key] = value;
+  } else {
+    return { params, bytes: (await request.arrayBuffer()).byteLength };
+  }
+  return { params, bytes: 0 };
+};
@@ -0,0 +1,114 @@
+import { graphConfig, GraphApiClient } from "@meta-mcp/core";
+import type { GraphApiCollection } from "@meta-mcp/core";
+import { collectAll, paginate } from "./pagination.js";
+
+/**
+ * Page Registry
+ *
+ * Resolves Page access tokens from `me/accounts` using a User access token, so
+ * one process can act on every Page the user manages. Tokens are cached and
+ * re-fetched when the cache expires or an unknown Page is requested.
+ */
+
+export interface PageAccount {
+  id: string;
+  name: string;
+  access_token: string;
+  category?: string;
+  tasks?: string[];
+}
+
+/** Page details safe to hand to a model (no token) */
+export type PageSummary = Omit<PageAccount, "access_token">;
+
+export interface PageRegistryOptions {
+  /** How long resolved tokens are trusted before re-fetching (default: 1 hour) */
+  ttlMs?: number;
+  /** Builds a client authenticated as a Page (default: graphConfig with the Page token) */
+  createClient?: (accessToken: string) => GraphApiClient;
+}
+
+export class PageRegistry {
+  private readonly userClient: GraphApiClient;
+  private readonly ttlMs: number;
+  private readonly createClient: (accessToken: string) => GraphApiClient;
+  private pages = new Map<string, PageAccount>();
+  private clients = new Map<string, { token: string; client: GraphApiClient }>();
+  private fetchedAt = 0;
+  private pending: Promise<Map<string, PageAccount>> | undefined;
+
+  /**
+   * @param userClient - Client authenticated with a User token holding pages_show_list
+   */
+  constructor(userClient: GraphApiClient, options: PageRegistryOptions = {}) {
+    this.userClient = userClient;
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.createClient = options.createClient ?? ((accessToken) => new GraphApiClient({ ...graphConfig, accessToken }));
+  }
+
+  /**
+   * List every Page the user manages.
+   * @param refresh - Bypass the cache
+   */
+  async listPages(refresh = false): Promise<PageAccount[]> {
+    return [...(await this.load(refresh)).values()];
+  }
+
+  /**
+   * Resolve one Page, refreshing the cache once if it is not known yet.
+   * @throws Error if the user does not manage the Page
+   */
+  async getPage(pageId: string): Promise<PageAccount> {
+    const page = (await this.load(false)).get(pageId) ?? (await this.load(true)).get(pageId);
+    if (!page) {
+      throw new Error(`Page ${pageId} is not managed by this user token (check pages_show_list and page roles)`);
+    }
+    return page;
+  }
+
+  /**
+   * Get a client authenticated as the Page, rebuilt whenever its token changes.
+   */
+  async clientFor(pageId: string): Promise<GraphApiClient> {
+    const page = await this.getPage(pageId);
+    const cached = this.clients.get(pageId);
+    if (cached?.token === page.access_token) return cached.client;
+
+    const client = this.createClient(page.access_token);
+    this.clients.set(pageId, { token: page.access_token, client });
+    return client;
+  }
+
+  /**
+   * Drop cached tokens so the next lookup re-fetches them (e.g. after an auth error).
+   */
+  invalidate(): void {
+    this.fetchedAt = 0;
+  }
+
+  private async load(refresh: boolean): Promise<Map<string, PageAccount>> {
+    const fresh = Date.now() - this.fetchedAt < this.ttlMs;
+    if (!refresh && fresh) return this.pages;
+
+    // Concurrent lookups share one me/accounts round trip
+    this.pending ??= this.fetchPages().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  private async fetchPages(): Promise<Map<string, PageAccount>> {
+    const { data } = await collectAll(paginate((after) =>
+      this.userClient.request<GraphApiCollection<PageAccount>>({
+        method: "GET",
+        endpoint: "me/accounts",
+        params: { fields: "id,name,access_token,category,tasks", limit: 100, after },
+      })
+    ));
+    this.pages = new Map(data.map((page) => [page.id, page]));
+    this.fetchedAt = Date.now();
+    return this.pages;
+  }
+}
+
+export const toPageSummary = ({ access_token: _token, ...page }: PageAccount): PageSummary => page;
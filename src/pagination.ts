@@ -0,0 +1,65 @@
+import type { GraphApiCollection } from "@meta-mcp/core";
+
+/**
+ * Cursor Pagination Helpers
+ *
+ * Graph list edges return one page at a time with `paging.cursors.after` and,
+ * when more data exists, `paging.next`. These helpers follow that chain.
+ */
+
+export interface PaginationLimits {
+  /** Stop after yielding this many items */
+  maxItems?: number;
+  /** Stop after fetching this many pages */
+  maxPages?: number;
+  /**
+   * Stop at the first item created before this date.
+   * Assumes newest-first ordering, which is the default for feeds and posts.
+   */
+  stopBefore?: Date;
+  /** Items requested per page (default: 100) */
+  pageSize?: number;
+  /** Cursor to start from instead of the first page */
+  after?: string;
+}
+
+/**
+ * Yield items across pages until the edge is exhausted or a limit is hit.
+ * @param fetchPage - Fetches one page given the previous page's `after` cursor
+ * @param limits - Item, page and date limits
+ * @param createdTime - Reads an item's timestamp for the stopBefore check
+ */
+export async function* paginate<T>(
+  fetchPage: (after: string | undefined) => Promise<GraphApiCollection<T>>,
+  limits: PaginationLimits = {},
+  createdTime: (item: T) => string | undefined = () => undefined,
+): AsyncGenerator<T> {
+  let after = limits.after;
+  let pages = 0;
+  let items = 0;
+
+  do {
+    if (limits.maxPages !== undefined && pages >= limits.maxPages) return;
+    const page = await fetchPage(after);
+    pages++;
+
+    for (const item of page.data) {
+      if (limits.maxItems !== undefined && items >= limits.maxItems) return;
+      const created = createdTime(item);
+      if (limits.stopBefore && created && new Date(created) < limits.stopBefore) return;
+      items++;
+      yield item;
+    }
+
+    after = page.paging?.next ? page.paging.cursors?.after : undefined;
+  } while (after);
+}
+
+/**
+ * Drain an async iterator into a collection-shaped result.
+ */
+export const collectAll = async <T>(items: AsyncIterable<T>): Promise<{ data: T[]; count: number }> => {
+  const data: T[] = [];
+  for await (const item of items) data.push(item);
+  return { data, count: data.length };
+};
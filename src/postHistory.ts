@@ -0,0 +1,178 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+/**
+ * Post Edit History
+ *
+ * Snapshots of posts taken before fb_update_post and fb_delete_post change
+ * them, so fb_undo can restore the previous message or re-create a deleted
+ * post.
+ */
+
+/** Graph fields captured in a snapshot */
+export const SNAPSHOT_FIELDS =
+  "id,message,link,permalink_url,is_published,scheduled_publish_time,created_time,place,attachments{type,media_type,url,media}";
+
+export interface PostAttachment {
+  type?: string;
+  media_type?: string;
+  url?: string;
+  media?: { image?: { src?: string; width?: number; height?: number } };
+}
+
+export interface PostFields {
+  id: string;
+  message?: string;
+  link?: string;
+  permalink_url?: string;
+  is_published?: boolean;
+  scheduled_publish_time?: number;
+  created_time?: string;
+  place?: { id: string; name?: string };
+  attachments?: { data: PostAttachment[] };
+}
+
+export interface PostSnapshot {
+  snapshot_id: string;
+  page_id: string;
+  post_id: string;
+  /** The change the snapshot was taken before */
+  action: "update" | "delete";
+  taken_at: string;
+  post: PostFields;
+}
+
+export interface PostHistoryStore {
+  save(snapshot: PostSnapshot): Promise<void>;
+  get(snapshotId: string): Promise<PostSnapshot | undefined>;
+  /** Snapshots of a post, newest first */
+  list(postId: string): Promise<PostSnapshot[]>;
+  delete(snapshotId: string): Promise<void>;
+}
+
+export const createSnapshot = (
+  pageId: string,
+  action: PostSnapshot["action"],
+  post: PostFields,
+): PostSnapshot => ({
+  snapshot_id: randomUUID(),
+  page_id: pageId,
+  post_id: post.id,
+  action,
+  taken_at: new Date().toISOString(),
+  post,
+});
+
+export class MemoryPostHistoryStore implements PostHistoryStore {
+  private readonly snapshots = new Map<string, PostSnapshot>();
+
+  async save(snapshot: PostSnapshot) {
+    this.snapshots.set(snapshot.snapshot_id, snapshot);
+  }
+
+  async get(snapshotId: string) {
+    return this.snapshots.get(snapshotId);
+  }
+
+  async list(postId: string) {
+    return [...this.snapshots.values()].filter((snapshot) => snapshot.post_id === postId).reverse();
+  }
+
+  async delete(snapshotId: string) {
+    this.snapshots.delete(snapshotId);
+  }
+}
+
+/** Line written when a snapshot is removed, since the file is only appended to */
+interface DeletedSnapshotLine {
+  deleted_snapshot_id: string;
+}
+
+export interface FilePostHistoryStoreOptions {
+  /** Newest snapshots kept when the file is compacted (default: 1000) */
+  maxSnapshots?: number;
+}
+
+/**
+ * Snapshots appended to a JSONL file, one line each. Deletes append a
+ * marker line instead of rewriting the file, so concurrent writers never
+ * drop each other's snapshots. Once the file holds twice maxSnapshots lines
+ * it is rewritten with only the newest maxSnapshots live snapshots.
+ */
+export class FilePostHistoryStore implements PostHistoryStore {
+  private readonly maxSnapshots: number;
+
+  constructor(
+    private readonly filePath = join(homedir(), ".meta-mcp", "facebook-post-history.jsonl"),
+    options: FilePostHistoryStoreOptions = {},
+  ) {
+    this.maxSnapshots = options.maxSnapshots ?? 1000;
+  }
+
+  async save(snapshot: PostSnapshot) {
+    await this.append(snapshot);
+  }
+
+  async get(snapshotId: string) {
+    return (await this.readAll()).find((snapshot) => snapshot.snapshot_id === snapshotId);
+  }
+
+  async list(postId: string) {
+    return (await this.readAll()).filter((snapshot) => snapshot.post_id === postId).reverse();
+  }
+
+  async delete(snapshotId: string) {
+    await this.append({ deleted_snapshot_id: snapshotId });
+  }
+
+  private async append(line: PostSnapshot | DeletedSnapshotLine) {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(line)}\n`);
+    await this.compact();
+  }
+
+  /**
+   * Rewrite the file with the newest maxSnapshots live snapshots once it
+   * reaches twice that many lines. The new file replaces the old one with a
+   * rename, so readers never see it half written.
+   */
+  private async compact() {
+    const { snapshots, lines } = await this.read();
+    if (lines < this.maxSnapshots * 2) return;
+    const kept = snapshots.slice(-this.maxSnapshots);
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, kept.map((snapshot) => `${JSON.stringify(snapshot)}\n`).join(""));
+    await rename(tempPath, this.filePath);
+  }
+
+  private async readAll(): Promise<PostSnapshot[]> {
+    return (await this.read()).snapshots;
+  }
+
+  private async read(): Promise<{ snapshots: PostSnapshot[]; lines: number }> {
+    let contents = "";
+    try {
+      contents = await readFile(this.filePath, "utf8");
+    } catch {
+      return { snapshots: [], lines: 0 };
+    }
+    const snapshots = new Map<string, PostSnapshot>();
+    let lines = 0;
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+      lines++;
+      let parsed: PostSnapshot | DeletedSnapshotLine;
+      try {
+        parsed = JSON.parse(line) as PostSnapshot | DeletedSnapshotLine;
+      } catch {
+        // Skip a line cut short by a crash mid-write
+        continue;
+      }
+      if ("deleted_snapshot_id" in parsed) snapshots.delete(parsed.deleted_snapshot_id);
+      else snapshots.set(parsed.snapshot_id, parsed);
+    }
+    return { snapshots: [...snapshots.values()], lines };
+  }
+}
@@ -0,0 +1,60 @@
+import { ValidationError } from "./errors.js";
+
+/**
+ * Post Argument Validation
+ *
+ * Checks publishing arguments against what Graph can honour before any
+ * request is sent. Combinations Graph would reject or drop throw a
+ * ValidationError; combinations it accepts with easily missed effects come
+ * back as warnings that are attached to the tool result.
+ */
+
+/** Which edge the post is created on */
+export type PostKind = "text" | "photo" | "multi_photo";
+
+export interface PostArgs {
+  link?: string | undefined;
+  place?: string | undefined;
+  published?: boolean | undefined;
+  scheduled_publish_time?: number | undefined;
+  alt_text?: string | undefined;
+}
+
+/**
+ * @returns Warnings for combinations Graph accepts but that may surprise the caller
+ * @throws ValidationError for combinations Graph cannot honour
+ */
+export const checkPostArgs = (kind: PostKind, args: PostArgs): string[] => {
+  const scheduled = args.scheduled_publish_time !== undefined;
+
+  if (scheduled && args.published === true) {
+    throw new ValidationError("A post cannot be published now and scheduled at the same time", {},
+      "Omit published (or set it to false) when passing scheduled_publish_time.");
+  }
+  if (kind !== "text" && args.link) {
+    throw new ValidationError("Photo posts cannot carry a link attachment", {},
+      "Put the URL in the message, or drop the image to create a link post with a preview.");
+  }
+  if (kind === "text" && args.alt_text) {
+    throw new ValidationError("alt_text needs a photo to describe", {}, "Remove alt_text or add image_url.");
+  }
+  if (kind === "multi_photo" && args.alt_text) {
+    throw new ValidationError("alt_text applies to a single photo", {}, "Set alt_text on each entry of images instead.");
+  }
+
+  const warnings: string[] = [];
+  if (args.published === false && !scheduled) {
+    warnings.push(kind === "photo"
+      ? "The photo is uploaded unpublished: it is not shown on the Page and has no post_id. Attach it to a post or upload it again with published: true."
+      : "The post is created unpublished and hidden from the Page feed until fb_publish_now is called.");
+  }
+  return warnings;
+};
+
+/**
+ * Attach warnings to an object result, leaving other results untouched.
+ */
+export const withWarnings = (result: unknown, warnings: string[]): unknown =>
+  warnings.length && result && typeof result === "object" && !Array.isArray(result)
+    ? { ...result, warnings }
+    : result;
@@ -0,0 +1,251 @@
+import { GraphApiClient } from "@meta-mcp/core";
+import { fromGraphError, RateLimitError, toFacebookError, type GraphErrorBody } from "./errors.js";
+
+/**
+ * Graph API Rate-Limit Awareness
+ *
+ * Meta reports quota consumption in the X-App-Usage, X-Page-Usage and
+ * X-Business-Use-Case-Usage response headers (percentages of the limit).
+ * RateLimiter tracks them, slows requests down as usage approaches 100%,
+ * pauses when a limit is hit and retries throttled calls with backoff.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Usage Headers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface UsageStats {
+  call_count?: number;
+  total_cputime?: number;
+  total_time?: number;
+  /** Minutes until calls are allowed again (page and business use case only) */
+  estimated_time_to_regain_access?: number;
+}
+
+export interface BusinessUseCaseUsage extends UsageStats {
+  type: string;
+}
+
+export interface RateLimitStatus {
+  app?: UsageStats;
+  page?: UsageStats;
+  business_use_case: Record<string, BusinessUseCaseUsage[]>;
+  /** Highest usage percentage across all reported quotas */
+  max_usage_percent: number;
+  /** ISO timestamp until which requests are paused, if any */
+  paused_until?: string;
+  updated_at?: string;
+}
+
+const usagePercent = (stats: UsageStats | undefined) =>
+  Math.max(stats?.call_count ?? 0, stats?.total_cputime ?? 0, stats?.total_time ?? 0);
+
+const parseJsonHeader = <T>(value: string | null): T | undefined => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+export const isThrottleError = (error: unknown) => toFacebookError(error) instanceof RateLimitError;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rate Limiter
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RateLimiterOptions {
+  /** Usage percentage at which requests start being delayed (default: 75) */
+  slowdownThreshold?: number;
+  /** Delay applied just below 100% usage; scales linearly from the threshold (default: 10s) */
+  maxDelayMs?: number;
+  /** Pause used when a limit is hit without an estimated regain time (default: 60s) */
+  defaultPauseMs?: number;
+  /** Retries for throttled calls (default: 3) */
+  maxRetries?: number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class RateLimiter {
+  private readonly slowdownThreshold: number;
+  private readonly maxDelayMs: number;
+  private readonly defaultPauseMs: number;
+  private readonly maxRetries: number;
+  private app: UsageStats | undefined;
+  private page: UsageStats | undefined;
+  private businessUseCase: Record<string, BusinessUseCaseUsage[]> = {};
+  private pausedUntil = 0;
+  private updatedAt: number | undefined;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.slowdownThreshold = options.slowdownThreshold ?? 75;
+    this.maxDelayMs = options.maxDelayMs ?? 10_000;
+    this.defaultPauseMs = options.defaultPauseMs ?? 60_000;
+    this.maxRetries = options.maxRetries ?? 3;
+  }
+
+  /**
+   * Record the usage headers of a Graph API response.
+   */
+  observe(headers: Headers): void {
+    const app = parseJsonHeader<UsageStats>(headers.get("x-app-usage"));
+    const page = parseJsonHeader<UsageStats>(headers.get("x-page-usage"));
+    const buc = parseJsonHeader<Record<string, BusinessUseCaseUsage[]>>(headers.get("x-business-use-case-usage"));
+    if (!app && !page && !buc) return;
+
+    if (app) this.app = app;
+    if (page) this.page = page;
+    if (buc) this.businessUseCase = { ...this.businessUseCase, ...buc };
+    this.updatedAt = Date.now();
+
+    if (this.maxUsage() >= 100) this.pause(this.regainMs());
+  }
+
+  /**
+   * Wait as needed before issuing a request.
+   */
+  async acquire(): Promise<void> {
+    const pausedFor = this.pausedUntil - Date.now();
+    if (pausedFor > 0) {
+      await sleep(pausedFor);
+      return;
+    }
+
+    const usage = this.maxUsage();
+    if (usage >= this.slowdownThreshold) {
+      const pressure = Math.min(1, (usage - this.slowdownThreshold) / (100 - this.slowdownThreshold));
+      await sleep(Math.round(pressure * this.maxDelayMs));
+    }
+  }
+
+  /**
+   * Run a Graph call under the limiter, retrying throttling errors with backoff.
+   */
+  async schedule<T>(call: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      try {
+        return await call();
+      } catch (error) {
+        if (!isThrottleError(error) || attempt >= this.maxRetries) throw error;
+        // Prefer Meta's own estimate; otherwise back off exponentially
+        this.pause(this.regainMs() ?? 2 ** attempt * 1_000);
+      }
+    }
+  }
+
+  status(): RateLimitStatus {
+    return {
+      app: this.app,
+      page: this.page,
+      business_use_case: this.businessUseCase,
+      max_usage_percent: this.maxUsage(),
+      paused_until: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined,
+      updated_at: this.updatedAt ? new Date(this.updatedAt).toISOString() : undefined,
+    };
+  }
+
+  private maxUsage(): number {
+    const buc = Object.values(this.businessUseCase).flat();
+    return Math.max(usagePercent(this.app), usagePercent(this.page), ...buc.map(usagePercent));
+  }
+
+  /**
+   * Longest estimated_time_to_regain_access across quotas, in milliseconds.
+   */
+  private regainMs(): number | undefined {
+    const minutes = [this.page, ...Object.values(this.businessUseCase).flat()]
+      .map((stats) => stats?.estimated_time_to_regain_access ?? 0);
+    const longest = Math.max(0, ...minutes);
+    return longest > 0 ? longest * 60_000 : undefined;
+  }
+
+  private pause(ms = this.defaultPauseMs): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Throttled Client
+// ─────────────────────────────────────────────────────────────────────────────
+
+type GraphRequestOptions = Parameters<GraphApiClient["request"]>[0];
+type GraphConfig = ConstructorParameters<typeof GraphApiClient>[0];
+
+export interface ThrottledGraphClientOptions {
+  /** fetch used for Graph requests (default: the global fetch at call time) */
+  fetch?: typeof globalThis.fetch;
+}
+
+const encodeParams = (params: Record<string, unknown> | undefined): [string, string][] =>
+  Object.entries(params ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, typeof value === "object" && value !== null ? JSON.stringify(value) : String(value)]);
+
+/**
+ * GraphApiClient whose requests go through a RateLimiter.
+ * Share one limiter between clients that draw on the same app quota.
+ *
+ * GraphApiClient does not expose response headers, so this client sends
+ * requests with its own fetch and feeds the usage headers of its responses,
+ * and only those, to its limiter. The access token travels in the
+ * Authorization header, never in the URL, so it stays out of proxy and
+ * server logs.
+ */
+export class ThrottledGraphClient extends GraphApiClient {
+  readonly rateLimiter: RateLimiter;
+  private readonly baseUrl: string;
+  private readonly accessToken: string;
+  private readonly fetch: typeof globalThis.fetch;
+
+  constructor(config: GraphConfig, rateLimiter = new RateLimiter(), options: ThrottledGraphClientOptions = {}) {
+    super(config);
+    this.rateLimiter = rateLimiter;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.accessToken = config.accessToken;
+    this.fetch = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+  }
+
+  override async request<T = Record<string, unknown>>(options: GraphRequestOptions): Promise<T> {
+    return this.rateLimiter.schedule(() => this.send<T>(options));
+  }
+
+  private async send<T>(options: GraphRequestOptions): Promise<T> {
+    const url = new URL(`${this.baseUrl}/${options.endpoint.replace(/^\/+/, "")}`);
+    const params = encodeParams(options.params);
+    const headers: Record<string, string> = { authorization: `Bearer ${this.accessToken}` };
+    const init: RequestInit = { method: options.method, headers };
+
+    if (options.method === "GET" || options.method === "DELETE" || options.body !== undefined) {
+      for (const [key, value] of params) url.searchParams.set(key, value);
+      if (options.body !== undefined) {
+        headers["content-type"] = "application/json";
+        init.body = JSON.stringify(options.body);
+      }
+    } else {
+      headers["content-type"] = "application/x-www-form-urlencoded";
+      init.body = new URLSearchParams(params).toString();
+    }
+
+    const response = await this.fetch(url, init);
+    this.rateLimiter.observe(response.headers);
+
+    const text = await response.text();
+    let payload: unknown;
+    try {
+      payload = text ? JSON.parse(text) : {};
+    } catch {
+      payload = undefined;
+    }
+    const graphError = (payload as { error?: GraphErrorBody } | undefined)?.error;
+    if (!response.ok || graphError || payload === undefined) {
+      const message = payload === undefined
+        ? `Graph returned a non-JSON response: HTTP ${response.status}`
+        : `Graph request failed: HTTP ${response.status}`;
+      throw fromGraphError(graphError ?? { message }, response.status);
+    }
+    return payload as T;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Record-and-replay fixture test for MetaMCP
+ * Records tool calls against the mock Graph API, then replays them with the network disabled
+ */
+import { GraphApiClient, graphConfig } from "@meta-mcp/core";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { diffFixtureShapes, FixtureMismatchError, GraphFixtures, REDACTED, type GraphFixtureFile } from "./fixtures.js";
+import { FacebookManager } from "./manager.js";
+import { MockGraphServer } from "./mockGraph.js";
+import { PageRegistry } from "./pageRegistry.js";
+import { MemoryPostHistoryStore } from "./postHistory.js";
+import { createToolRegistry } from "./toolRegistry.js";
+import type { ToolName } from "./toolSchemas.js";
+
+let failures = 0;
+
+function check(name: string, condition: boolean): void {
+    console.log(`   ${condition ? "✓" : "✗"} ${name}`);
+    if (!condition) failures++;
+}
+
+const PAGE_ID = "1000000001";
+
+/** Answers every request with the same body, for recording hand-written responses */
+class CannedGraphClient extends GraphApiClient {
+    constructor(private readonly body: unknown) {
+        super({ ...graphConfig, accessToken: "" });
+    }
+
+    override async request<T>(): Promise<T> {
+        return structuredClone(this.body) as T;
+    }
+}
+
+// Fixtures are written with sorted keys, so results are compared independent of key order
+const canonical = (value: unknown): string => JSON.stringify(value, (_key, inner: unknown) =>
+    inner && typeof inner === "object" && !Array.isArray(inner)
+        ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+        : inner);
+
+/** Tool calls made in both runs; later calls reuse IDs returned by earlier ones */
+async function runTools(fixtures: GraphFixtures, accessToken: string, userToken: string, postId: string, baseUrl?: string) {
+    // Replay never reaches the inner client, so it is only built while recording
+    const client = (token: string) => fixtures.client(
+        baseUrl ? new GraphApiClient({ ...graphConfig, baseUrl, pageId: PAGE_ID, accessToken: token }) : undefined,
+    );
+    const manager = new FacebookManager(client(accessToken), PAGE_ID, {
+        accessToken,
+        postHistory: new MemoryPostHistoryStore(),
+        pageRegistry: new PageRegistry(client(userToken), { createClient: client }),
+    });
+    const registry = createToolRegistry(manager);
+    const call = (name: ToolName, args: Record<string, unknown> = {}) => registry.handlers[name](args);
+
+    const created = (await call("fb_create_post", { message: "Recorded post" })) as { id: string };
+    return {
+        info: await call("fb_get_page_info"),
+        created,
+        posts: await call("fb_get_posts", { limit: 1 }),
+        comments: await call("fb_get_comments", { post_id: postId }),
+        pages: await call("fb_list_pages"),
+        conversations: await call("fb_get_conversations"),
+        access: await call("fb_check_access"),
+        missing: await call("fb_delete_post", { post_id: `${PAGE_ID}_404` }),
+        deleted: await call("fb_delete_post", { post_id: created.id }),
+    };
+}
+
+async function runFixtureTest() {
+    console.log("🧪 Record-and-replay fixture test\n");
+    const dir = await mkdtemp(join(tmpdir(), "meta-mcp-fixtures-"));
+    const file = join(dir, "graph.json");
+
+    // 1. Record
+    console.log("1. Record");
+    const mock = new MockGraphServer();
+    const uninstall = mock.install();
+    const post = mock.addPost(PAGE_ID, { message: "Has comments" });
+    mock.addComment(post.id, { message: "My phone is 555-0100", from: { id: "5000000007", name: "Jane Commenter" } });
+    mock.addComment(post.id, { message: "Thanks everyone", from: { id: PAGE_ID, name: "Mock Page" } });
+    mock.addConversation(PAGE_ID, { id: "5000000008", name: "Jane Commenter" }, [{ text: "Private question" }]);
+
+    const recorder = GraphFixtures.record(file, { pageId: PAGE_ID });
+    const recorded = await runTools(recorder, mock.pageToken(PAGE_ID), mock.user.access_token, post.id, mock.baseUrl);
+    await recorder.save();
+    uninstall();
+    check("requests captured", recorder.pending === mock.requests.length && recorder.pending > 0);
+
+    const raw = await readFile(file, "utf8");
+    const fixture = JSON.parse(raw) as GraphFixtureFile;
+    check("fixture records the Graph version", fixture.graph_version === "v24.0" && fixture.version === 1);
+    check("no access tokens in the fixture", !raw.includes("mock-page-token") && !raw.includes("mock-user-token") && raw.includes(REDACTED));
+    check("people's names and words are pseudonymized",
+        !raw.includes("Jane Commenter") && !raw.includes("555-0100") && !raw.includes("Private question") && raw.includes("name_1"));
+    check("people's IDs are pseudonymized, the Page's are kept",
+        !raw.includes("5000000007") && !raw.includes("5000000008") && raw.includes("\"user_1\"") && raw.includes("\"user_2\"")
+        && fixture.interactions.some((interaction) => JSON.stringify(interaction.response).includes(`"from":{"id":"${PAGE_ID}"`)));
+    check("the Page's own name and replies stay readable", raw.includes("\"Mock Page\"") && raw.includes("Thanks everyone"));
+    check("failed requests are recorded as Graph errors",
+        fixture.interactions.some((interaction) => interaction.error?.code === 100 && interaction.error.error_subcode === 33));
+
+    // 2. Replay
+    console.log("\n2. Replay");
+    const realFetch = globalThis.fetch;
+    let networkCalls = 0;
+    globalThis.fetch = async () => {
+        networkCalls++;
+        throw new TypeError("fetch failed: network disabled during replay");
+    };
+    try {
+        const player = await GraphFixtures.replay(file, { pageId: PAGE_ID });
+        const replayed = await runTools(player, "replay-token", "replay-user-token", post.id);
+        await player.save();
+        check("replay makes no network calls", networkCalls === 0 && player.pending === 0);
+        for (const key of ["info", "created", "posts", "missing"] as const) {
+            check(`${key} matches the live run`, canonical(replayed[key]) === canonical(recorded[key]));
+        }
+        const { user_id: replayedUser, ...replayedAccess } = replayed.access as { user_id?: string };
+        const { user_id: _recordedUser, ...recordedAccess } = recorded.access as { user_id?: string };
+        check("access matches the live run apart from the pseudonymized token owner",
+            canonical(replayedAccess) === canonical(recordedAccess) && /^user_\d+$/.test(replayedUser ?? ""));
+        const replayedPages = replayed.pages as { id: string; name: string }[];
+        check("other Pages keep their IDs but not their names",
+            canonical(replayedPages.map((page) => page.id)) === canonical((recorded.pages as { id: string }[]).map((page) => page.id))
+            && replayedPages.some((page) => page.name === "Mock Page") && replayedPages.some((page) => /^name_\d+$/.test(page.name)));
+        check("replayed delete succeeds", (replayed.deleted as { success?: boolean }).success === true);
+        const replayedComments = replayed.comments as { data: { from?: { id?: string; name?: string } }[] };
+        check("replayed comments carry pseudonyms",
+            replayedComments.data.length === 2 && replayedComments.data.some((comment) => comment.from?.name === "name_1" && comment.from.id === "user_1"));
+        const replayedConversations = replayed.conversations as { data: { participants?: { data: { id: string }[] } }[] };
+        check("participants keep one pseudonym across the recording",
+            canonical(replayedConversations.data[0]?.participants?.data.map((participant) => participant.id).sort()) === canonical([PAGE_ID, "user_2"]));
+
+        const again = await GraphFixtures.replay(file, { pageId: PAGE_ID });
+        const wrongTurn = await again.client().request({ method: "GET", endpoint: "me/accounts" }).catch((error: unknown) => error);
+        check("out-of-order request is a mismatch", wrongTurn instanceof FixtureMismatchError && wrongTurn.expected?.endpoint === `${PAGE_ID}/feed`);
+
+        const partial = await GraphFixtures.replay(file, { pageId: PAGE_ID });
+        await partial.client().request({ method: "POST", endpoint: `${PAGE_ID}/feed`, params: { message: "Different text" } });
+        check("non-strict replay ignores params", partial.pending === fixture.interactions.length - 1);
+        check("unused recordings fail the run", await partial.save().then(() => false, (error: unknown) => error instanceof FixtureMismatchError));
+
+        const strict = await GraphFixtures.replay(file, { pageId: PAGE_ID, strict: true });
+        const changed = await strict.client()
+            .request({ method: "POST", endpoint: `${PAGE_ID}/feed`, params: { message: "Different text" } })
+            .catch((error: unknown) => error);
+        check("strict replay compares params", changed instanceof FixtureMismatchError);
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+
+    // 3. Attachment URLs
+    console.log("\n3. Attachment URLs");
+    const cdn = (name: string) => `https://scontent.xx.fbcdn.net/v/${name}?oh=signed&oe=1`;
+    const mediaFile = join(dir, "media.json");
+    const mediaRecorder = GraphFixtures.record(mediaFile, { pageId: PAGE_ID });
+    await mediaRecorder.client(new CannedGraphClient({
+        data: [{
+            id: "m_1",
+            attachments: { data: [
+                { id: "1", image_data: { url: cdn("photo.jpg"), preview_url: "kept" } },
+                { id: "2", video_data: { url: cdn("clip.mp4") } },
+                { id: "3", file_url: cdn("notes.pdf") },
+            ] },
+        }],
+    })).request({ method: "GET", endpoint: "m_1" });
+    await mediaRecorder.client(new CannedGraphClient({
+        id: `${PAGE_ID}_1`,
+        attachments: { data: [{ media_type: "photo", media: { image: { src: cdn("post.jpg"), width: 720 } } }] },
+    })).request({ method: "GET", endpoint: `${PAGE_ID}_1` });
+    await mediaRecorder.client(new CannedGraphClient({ id: "2" }))
+        .request({ method: "POST", endpoint: `${PAGE_ID}/photos`, params: { url: cdn("post.jpg") } });
+    await mediaRecorder.save();
+    const mediaRaw = await readFile(mediaFile, "utf8");
+    const mediaFixture = JSON.parse(mediaRaw) as GraphFixtureFile;
+    check("attachment and media URLs are pseudonymized", !mediaRaw.includes("fbcdn") && mediaRaw.includes("\"url_4\""));
+    check("a media URL passed back to Graph keeps its pseudonym",
+        (mediaFixture.interactions[2]?.request.params as { url?: string } | undefined)?.url === "url_4");
+    const mediaPlayer = await GraphFixtures.replay(mediaFile, { pageId: PAGE_ID, strict: true });
+    await mediaPlayer.client().request({ method: "GET", endpoint: "m_1" });
+    const replayedPost = await mediaPlayer.client().request<{ attachments: { data: { media: { image: { src: string } } }[] } }>({
+        method: "GET",
+        endpoint: `${PAGE_ID}_1`,
+    });
+    const reposted = await mediaPlayer.client()
+        .request({ method: "POST", endpoint: `${PAGE_ID}/photos`, params: { url: replayedPost.attachments.data[0]!.media.image.src } })
+        .then(() => true, () => false);
+    check("strict replay accepts pseudonymized URLs sent back", reposted && mediaPlayer.pending === 0);
+
+    // 4. Version diff
+    console.log("\n4. Version diff");
+    check("identical recordings have no changes", diffFixtureShapes(fixture, fixture).length === 0);
+    const bumped = structuredClone(fixture);
+    const infoResponse = bumped.interactions[1]!.response as Record<string, unknown>;
+    delete infoResponse.fan_count;
+    infoResponse.followers_count = 1234;
+    infoResponse.name = { text: "Mock Page" };
+    const changes = diffFixtureShapes(fixture, bumped);
+    check("removed, added and retyped fields are reported",
+        changes.length === 4
+        && changes.some((change) => change.change === "removed" && change.path === "fan_count")
+        && changes.some((change) => change.change === "added" && change.path === "followers_count")
+        && changes.some((change) => change.change === "type_changed" && change.path === "name" && change.after === "object")
+        && changes.some((change) => change.change === "added" && change.path === "name.text"));
+
+    await rm(dir, { recursive: true, force: true });
+    console.log(`\n${failures === 0 ? "✅ All checks passed" : `❌ ${failures} check(s) failed`}`);
+    process.exit(failures > 0 ? 1 : 0);
+}
+
+runFixtureTest().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
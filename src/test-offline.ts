@@ -0,0 +1,521 @@
+/**
+ * Offline tool test for MetaMCP
+ * Runs every tool through createToolRegistry against the in-process mock Graph API
+ */
+import { graphConfig } from "@meta-mcp/core";
+import { mkdtemp, readFile, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ApprovalGate } from "./approval.js";
+import { AuditLog, MemoryAuditSink, type AuditEntry } from "./audit.js";
+import { executeBatch, type BatchResult } from "./batch.js";
+import { ValidationError, type ToolErrorResult } from "./errors.js";
+import { FacebookManager } from "./manager.js";
+import { MockGraphServer } from "./mockGraph.js";
+import { PageRegistry } from "./pageRegistry.js";
+import { createSnapshot, FilePostHistoryStore, MemoryPostHistoryStore } from "./postHistory.js";
+import { RateLimiter, ThrottledGraphClient } from "./rateLimit.js";
+import { createToolRegistry } from "./toolRegistry.js";
+import { toolSchemas, type ToolName } from "./toolSchemas.js";
+import { MemoryUploadSessionStore, uploadSessionKey } from "./videoUpload.js";
+
+type Result = Record<string, unknown> & Partial<ToolErrorResult>;
+type Collection<T = Record<string, unknown>> = { data: T[]; paging?: { next?: string; cursors?: { after?: string } }; count?: number };
+
+let failures = 0;
+
+function check(name: string, condition: boolean): void {
+    console.log(`   ${condition ? "✓" : "✗"} ${name}`);
+    if (!condition) failures++;
+}
+
+const PAGE_ID = "1000000001";
+const OTHER_PAGE_ID = "1000000002";
+const inMinutes = (minutes: number) => Math.floor(Date.now() / 1000) + minutes * 60;
+const hoursAgo = (hours: number) => Date.now() - hours * 60 * 60 * 1000;
+
+async function runOfflineTest() {
+    console.log("🧪 Offline tool test (mock Graph API)\n");
+
+    // Clients get the mock's fetch directly; binary uploads go through the installed global
+    const mock = new MockGraphServer({ chunkSize: 1024 });
+    mock.install();
+
+    const rateLimiter = new RateLimiter({ maxRetries: 1 });
+    const graphRequests: { url: string; body: string }[] = [];
+    const recordingFetch: typeof fetch = (input, init) => {
+        graphRequests.push({ url: String(input), body: typeof init?.body === "string" ? init.body : "" });
+        return mock.fetch(input, init);
+    };
+    const createClient = (accessToken: string) =>
+        new ThrottledGraphClient({ ...graphConfig, baseUrl: mock.baseUrl, pageId: PAGE_ID, accessToken }, rateLimiter, { fetch: recordingFetch });
+    const postHistory = new MemoryPostHistoryStore();
+    const uploadSessions = new MemoryUploadSessionStore();
+    const dir = await mkdtemp(join(tmpdir(), "meta-mcp-offline-"));
+    const manager = new FacebookManager(createClient(mock.pageToken(PAGE_ID)), PAGE_ID, {
+        accessToken: mock.pageToken(PAGE_ID),
+        baseUrl: mock.baseUrl,
+        uploadRoot: dir,
+        rateLimiter,
+        uploadSessionStore: uploadSessions,
+        postHistory,
+        pageRegistry: new PageRegistry(createClient(mock.user.access_token), { createClient }),
+    });
+    const auditSink = new MemoryAuditSink();
+    const registry = createToolRegistry(manager, { audit: new AuditLog({ sink: auditSink }) });
+    const gated = createToolRegistry(manager, { approval: new ApprovalGate(), exposeApprovalTools: true });
+
+    const covered = new Set<ToolName>();
+    const call = async <T = Result>(name: ToolName, args: Record<string, unknown> = {}) => {
+        covered.add(name);
+        return (await registry.handlers[name](args)) as T & Partial<ToolErrorResult>;
+    };
+
+    // 1. Posting
+    console.log("1. Posting");
+    const text = await call("fb_create_post", { message: "Hello from the mock" });
+    const textPost = mock.state.posts.get(String(text.id));
+    check("text post created and published", textPost?.message === "Hello from the mock" && textPost.is_published);
+
+    const scheduledAt = inMinutes(60);
+    const scheduled = await call("fb_create_post", { message: "Later", link: "https://example.com", scheduled_publish_time: scheduledAt });
+    const scheduledPost = mock.state.posts.get(String(scheduled.id));
+    check("scheduled link post is unpublished until its time",
+        scheduledPost?.is_published === false && scheduledPost.scheduled_publish_time === scheduledAt && scheduledPost.link === "https://example.com");
+
+    const photo = await call("fb_create_post", { image_url: "https://example.com/a.jpg", message: "Caption", place: "7000000001", alt_text: "A red bike" });
+    const storedPhoto = mock.state.photos.get(String(photo.id));
+    check("image post keeps caption, place and alt text",
+        storedPhoto?.caption === "Caption" && storedPhoto.place === "7000000001" && storedPhoto.alt_text === "A red bike" && typeof photo.post_id === "string");
+
+    const album = await call("fb_create_post", {
+        message: "Album",
+        images: [{ url: "https://example.com/1.jpg" }, { url: "https://example.com/2.jpg", alt_text: "Second" }],
+        scheduled_publish_time: inMinutes(120),
+    });
+    const albumPhotos = ((album.photo_ids ?? []) as string[]).map((id) => mock.state.photos.get(id));
+    check("scheduled multi-photo post attaches temporary photos",
+        albumPhotos.length === 2 && albumPhotos.every((p) => p?.temporary && p.post_id === album.id) && albumPhotos[1]?.alt_text === "Second");
+
+    const photoWithLink = await call("fb_create_post", { image_url: "https://example.com/a.jpg", link: "https://example.com" });
+    check("link on a photo post is rejected before any request", photoWithLink.error?.type === "validation");
+
+    const draftPhoto = await call("fb_post_photo", { url: "https://example.com/b.jpg", caption: "Draft", published: false });
+    check("unpublished photo is not posted and comes with a warning",
+        mock.state.photos.get(String(draftPhoto.id))?.published === false && !draftPhoto.post_id && Array.isArray(draftPhoto.warnings));
+
+    const preview = await call<{ dry_run?: boolean; requests?: unknown[] }>("fb_create_post", { message: "Not sent", dry_run: true });
+    check("dry run returns requests without posting",
+        preview.dry_run === true && preview.requests?.length === 1 && ![...mock.state.posts.values()].some((p) => p.message === "Not sent"));
+
+    // 2. Video and Reels
+    console.log("\n2. Video and Reels");
+    const hostedVideo = await call("fb_post_video", { file_url: "https://example.com/v.mp4", title: "Hosted" });
+    check("hosted video created", mock.state.videos.get(String(hostedVideo.id))?.file_url === "https://example.com/v.mp4");
+
+    const videoPath = join(dir, "clip.mp4");
+    await writeFile(videoPath, Buffer.alloc(2500, 1));
+    const upload = await call<{ id?: string; progress?: { phase: string }[] }>("fb_post_video", { file_path: videoPath, description: "Local" });
+    const uploaded = mock.state.videos.get(String(upload.id));
+    check("local video uploaded in three chunks",
+        uploaded?.status === "ready" && uploaded.bytes_received === 2500
+        && upload.progress?.filter((event) => event.phase === "transfer").length === 3);
+
+    const outsideDir = await mkdtemp(join(tmpdir(), "meta-mcp-outside-"));
+    await writeFile(join(outsideDir, "secret.mp4"), Buffer.alloc(10, 1));
+    await symlink(join(outsideDir, "secret.mp4"), join(dir, "link.mp4"));
+    const escapes = await Promise.all([join(dir, "..", outsideDir.split("/").pop()!, "secret.mp4"), join(dir, "link.mp4")]
+        .map((file_path) => call("fb_post_video", { file_path })));
+    const unrooted = new FacebookManager(createClient(mock.pageToken(PAGE_ID)), PAGE_ID, { accessToken: mock.pageToken(PAGE_ID), baseUrl: mock.baseUrl });
+    const refused = (await createToolRegistry(unrooted).handlers.fb_post_video({ file_path: videoPath })) as Result;
+    check("local files outside the upload root, or without one, are refused",
+        escapes.every((result) => result.error?.type === "validation") && refused.error?.type === "validation");
+    await rm(outsideDir, { recursive: true, force: true });
+
+    await uploadSessions.set((await uploadSessionKey(PAGE_ID, { type: "file", path: videoPath }))!, {
+        video_id: "expired", upload_session_id: "us_expired", file_size: 2500, start_offset: 1024, end_offset: 2048, created_at: Date.now(),
+    });
+    const restarted = await call<{ id?: string; resumed?: boolean }>("fb_post_video", { file_path: videoPath, description: "Restarted" });
+    check("an expired stored upload session is dropped and the upload starts over",
+        restarted.resumed === false && mock.state.videos.get(String(restarted.id))?.bytes_received === 2500);
+
+    // A bare 503 with no Graph error body, once, on the first chunk transfer
+    const installedFetch = globalThis.fetch;
+    let dropped = 0;
+    globalThis.fetch = async (input, init) => {
+        if (!dropped && init?.body instanceof FormData && init.body.get("upload_phase") === "transfer") {
+            dropped++;
+            return new Response("Service Unavailable", { status: 503 });
+        }
+        return installedFetch(input, init);
+    };
+    try {
+        const flaky = await call<{ id?: string }>("fb_post_video", { file_path: videoPath, description: "Flaky" });
+        check("chunk transfer retries a bare 5xx", dropped === 1 && mock.state.videos.get(String(flaky.id))?.status === "ready");
+    } finally {
+        globalThis.fetch = installedFetch;
+    }
+    await rm(dir, { recursive: true, force: true });
+
+    const reel = await call<{ id?: string; permalink_url?: string; status?: { video_status?: string } }>("fb_post_reel", {
+        video_url: "https://example.com/reel.mp4",
+        description: "Reel",
+        wait_for_processing: true,
+    });
+    check("reel goes through start, upload and finish",
+        mock.requestsTo(`video-upload/v24.0/${reel.id}`).length === 1 && reel.status?.video_status === "ready"
+        && reel.permalink_url === `https://www.facebook.com/reel/${reel.id}/`);
+
+    const scheduledReel = await manager.postReelToFacebook({ type: "url", url: "https://example.com/scheduled.mp4" }, {
+        scheduled_publish_time: inMinutes(60),
+        wait_for_processing: true,
+        poll: { intervalMs: 10, timeoutMs: 100 },
+    }).catch((error: unknown) => error);
+    check("waiting on a scheduled reel ends once it is processed",
+        !(scheduledReel instanceof Error) && (scheduledReel as { status?: { processing_phase?: { status?: string } } }).status?.processing_phase?.status === "complete");
+
+    // 3. Editing and undo
+    console.log("\n3. Editing and undo");
+    mock.failNext({ method: "POST", path: String(text.id), error: { code: 200, message: "(#200) Permissions error" } });
+    const failedUpdate = await call("fb_update_post", { post_id: text.id, message: "Never applied" });
+    check("failed update leaves no snapshot", failedUpdate.error?.type === "permission" && (await postHistory.list(String(text.id))).length === 0);
+
+    const updated = await call("fb_update_post", { post_id: text.id, message: "Edited" });
+    check("post updated with a snapshot", mock.state.posts.get(String(text.id))?.message === "Edited" && typeof updated.snapshot_id === "string");
+
+    await call("fb_undo", { post_id: text.id });
+    check("undo restores the previous message", mock.state.posts.get(String(text.id))?.message === "Hello from the mock");
+
+    const deleted = await call("fb_delete_post", { post_id: text.id });
+    check("post deleted", !mock.state.posts.has(String(text.id)));
+
+    const recreated = await call("fb_undo", { snapshot_id: deleted.snapshot_id });
+    check("undo re-creates a deleted post under a new id",
+        recreated.post_id !== text.id && mock.state.posts.get(String(recreated.post_id))?.message === "Hello from the mock");
+
+    const historyDir = await mkdtemp(join(tmpdir(), "meta-mcp-history-"));
+    const fileHistory = new FilePostHistoryStore(join(historyDir, "history.jsonl"));
+    const [first, second] = [createSnapshot(PAGE_ID, "update", { id: "1_1" }), createSnapshot(PAGE_ID, "delete", { id: "1_1" })];
+    await Promise.all([fileHistory.save(first), fileHistory.save(second)]);
+    await fileHistory.delete(first.snapshot_id);
+    check("file history keeps concurrent saves and applies deletes",
+        (await fileHistory.list("1_1")).map((snapshot) => snapshot.snapshot_id).join() === second.snapshot_id);
+
+    const cappedPath = join(historyDir, "capped.jsonl");
+    const cappedHistory = new FilePostHistoryStore(cappedPath, { maxSnapshots: 3 });
+    const cappedSnapshots = Array.from({ length: 6 }, (_, index) => createSnapshot(PAGE_ID, "update", { id: `2_${index}` }));
+    for (const snapshot of cappedSnapshots) {
+        await cappedHistory.save(snapshot);
+        await cappedHistory.delete(snapshot.snapshot_id);
+    }
+    await cappedHistory.save(cappedSnapshots[0]!);
+    const cappedLines = (await readFile(cappedPath, "utf8")).trim().split("\n").length;
+    check("file history is compacted as it grows",
+        cappedLines < 6 && (await cappedHistory.get(cappedSnapshots[0]!.snapshot_id)) !== undefined);
+    await rm(historyDir, { recursive: true, force: true });
+
+    // 4. Reading and scheduling
+    console.log("\n4. Reading and scheduling");
+    const firstPage = await call<Collection>("fb_get_posts", { limit: 1 });
+    check("posts are paginated", firstPage.data.length === 1 && Boolean(firstPage.paging?.next));
+
+    const allPosts = await call<Collection>("fb_get_posts", { fetch_all: true, limit: 1 });
+    const publishedCount = [...mock.state.posts.values()].filter((p) => p.page_id === PAGE_ID && p.is_published).length;
+    check("fetch_all follows every cursor", allPosts.count === publishedCount);
+
+    const scheduledList = await call<Collection>("fb_get_scheduled_posts");
+    check("scheduled posts listed", scheduledList.data.some((p) => p.id === scheduled.id));
+
+    const rescheduledAt = inMinutes(180);
+    await call("fb_reschedule_post", { post_id: scheduled.id, scheduled_publish_time: rescheduledAt });
+    check("post rescheduled", mock.state.posts.get(String(scheduled.id))?.scheduled_publish_time === rescheduledAt);
+
+    await call("fb_publish_now", { post_id: scheduled.id });
+    check("scheduled post published now", mock.state.posts.get(String(scheduled.id))?.is_published === true);
+
+    await call("fb_cancel_scheduled_post", { post_id: album.id });
+    check("scheduled post cancelled", !mock.state.posts.has(String(album.id)));
+
+    // 5. Comments
+    console.log("\n5. Comments");
+    const post = mock.addPost(PAGE_ID, { message: "Discuss" });
+    const comment = mock.addComment(post.id, { message: "First!", created_at: hoursAgo(2) });
+    mock.addComment(comment.id, { message: "Nested reply", created_at: hoursAgo(1) });
+
+    const comments = await call<Collection<{ id: string; replies?: unknown[] }> & { summary?: { total_count: number } }>("fb_get_comments", {
+        post_id: post.id,
+        include_summary: true,
+        expand_replies: true,
+    });
+    check("comments with summary and reply tree",
+        comments.summary?.total_count === 1 && comments.data[0]?.replies?.length === 1);
+
+    const streamThreads = await call("fb_get_comments", { post_id: post.id, expand_replies: true, filter: "stream" });
+    check("expand_replies with filter stream is rejected", streamThreads.error?.type === "validation");
+
+    const busy = mock.addPost(PAGE_ID, { message: "Busy" });
+    for (const hours of [3, 2, 1]) mock.addComment(busy.id, { message: `${hours}h ago`, created_at: hoursAgo(hours) });
+    const recentComments = [];
+    for await (const item of manager.iterateComments(busy.id, { stopBefore: new Date(hoursAgo(2.5)) })) recentComments.push(item);
+    check("stopBefore reads newest first and stops at the cutoff",
+        recentComments.map((item) => item.message).join() === "1h ago,2h ago");
+
+    const firstComment = await call<Collection>("fb_get_comments", { post_id: busy.id, limit: 1 });
+    const restOfComments = await call<Collection>("fb_get_comments", { post_id: busy.id, limit: 1, fetch_all: true, after: firstComment.paging?.cursors?.after });
+    check("fetch_all continues from the given cursor", restOfComments.count === 2 && restOfComments.data[0]?.message === "2h ago");
+    const summarized = await call<Collection & { summary?: { total_count: number } }>("fb_get_comments", { post_id: busy.id, limit: 1, fetch_all: true, include_summary: true });
+    check("fetch_all keeps the summary", summarized.count === 3 && summarized.summary?.total_count === 3
+        && mock.requestsTo(`${busy.id}/comments`).filter((request) => request.params.summary !== undefined).length === 1);
+
+    const reply = await call("fb_reply_comment", { comment_id: comment.id, message: "Thanks" });
+    check("reply posted as the page", mock.state.comments.get(String(reply.id))?.from.id === PAGE_ID);
+
+    await call("fb_moderate_comment", { comment_id: comment.id, action: "hide" });
+    await call("fb_moderate_comment", { comment_id: comment.id, action: "like" });
+    const hiddenComment = mock.state.comments.get(comment.id);
+    check("comment hidden and liked", hiddenComment?.is_hidden === true && hiddenComment.liked_by_page);
+
+    const editOther = await call("fb_moderate_comment", { comment_id: comment.id, action: "edit", message: "Changed" });
+    check("editing someone else's comment is a permission error", editOther.error?.type === "permission");
+
+    await call("fb_moderate_comment", { comment_id: comment.id, action: "private_reply", message: "We'll DM you" });
+    check("private reply opens a conversation",
+        [...mock.state.conversations.values()].some((c) => c.user.id === comment.from.id && c.messages.at(-1)?.message === "We'll DM you")
+        && mock.requestsTo(`${PAGE_ID}/messages`, "POST").length === 1);
+    const noText = await manager.moderateComment(comment.id, "private_reply").catch((error: unknown) => error);
+    check("a private reply without text is a validation error", noText instanceof ValidationError);
+
+    await call("fb_delete_comment", { comment_id: reply.id });
+    check("comment deleted", !mock.state.comments.has(String(reply.id)));
+
+    // 6. Insights and page info
+    console.log("\n6. Insights and page info");
+    mock.state.postInsights.post_clicks = 42;
+    mock.state.pageInsights.page_follows = 7;
+    const insights = await call<Collection<{ name: string; values: { value: number }[] }>>("fb_get_insights", { post_id: post.id, metrics: ["post_clicks"] });
+    check("post insights returned", insights.data[0]?.name === "post_clicks" && insights.data[0].values[0]?.value === 42);
+
+    const pageInsights = await call<{ series?: { metric: string; values: { value: unknown }[] }[] }>("fb_get_page_insights", {
+        metrics: ["page_follows"],
+        since: "2025-01-01",
+        until: "2025-05-01",
+    });
+    check("long page insight ranges are split into windows Graph accepts",
+        mock.requestsTo(`${PAGE_ID}/insights`).length === 2 && pageInsights.series?.[0]?.values.every((point) => point.value === 7) === true);
+
+    const pages = await call<Record<string, unknown>[]>("fb_list_pages");
+    check("pages listed without tokens", pages.length === 2 && pages.every((page) => !("access_token" in page)));
+
+    const info = await call("fb_get_page_info");
+    check("page info includes fan count", info.fan_count === 1234);
+
+    const otherInfo = await call("fb_get_page_info", { page_id: OTHER_PAGE_ID });
+    check("page_id resolves another page through me/accounts", otherInfo.name === "Second Mock Page");
+
+    // 7. Messenger
+    console.log("\n7. Messenger");
+    const recent = mock.addConversation(PAGE_ID, { id: "5000000002", name: "Recent User" }, [{ text: "Hi!", created_at: hoursAgo(1) }]);
+    mock.addConversation(PAGE_ID, { id: "5000000003", name: "Old User" }, [{ text: "Hello?", created_at: hoursAgo(48) }]);
+
+    const window = await call("fb_check_messaging_window", { user_id: "5000000002" });
+    check("messaging window open after a recent message", window.open === true && window.conversation_id === recent.id);
+
+    const buried = mock.addConversation(PAGE_ID, { id: "5000000004", name: "Busy User" }, [{ text: "Question", created_at: hoursAgo(3) }]);
+    for (let index = 0; index < 30; index++) {
+        buried.messages.push({
+            id: `m_page_${index}`,
+            from: { id: PAGE_ID, name: "Mock Page" },
+            to: buried.user,
+            message: `Update ${index}`,
+            created_at: hoursAgo(2) + index * 1000,
+        });
+    }
+    const buriedWindow = await call("fb_check_messaging_window", { user_id: "5000000004" });
+    check("window found behind more than 25 Page messages", buriedWindow.open === true && typeof buriedWindow.expires_at === "string");
+
+    const sent = await call("fb_send_message", { user_id: "5000000002", message: "Hello back" });
+    check("message sent inside the window", typeof sent.message_id === "string");
+
+    const outside = await call("fb_send_message", { user_id: "5000000003", message: "Too late" });
+    check("message outside the window is refused", outside.error?.type === "permission" && outside.error.subcode === 2018278);
+
+    const tagged = await call("fb_send_message", { user_id: "5000000003", message: "Update", messaging_type: "MESSAGE_TAG", tag: "ACCOUNT_UPDATE" });
+    check("tagged message sent outside the window", typeof tagged.message_id === "string");
+
+    const conversations = await call<Collection>("fb_get_conversations", { user_id: "5000000002" });
+    check("conversation found by user", conversations.data.length === 1 && conversations.data[0]?.id === recent.id);
+
+    const messages = await call<Collection<{ message: string }>>("fb_get_messages", { conversation_id: recent.id });
+    check("messages newest first", messages.data[0]?.message === "Hello back" && messages.data[1]?.message === "Hi!");
+
+    // 8. Errors and rate limits
+    console.log("\n8. Errors and rate limits");
+    mock.setUsage({ app: { call_count: 42, total_cputime: 10, total_time: 12 } });
+    await call("fb_get_page_info");
+    const status = await call<{ tracking?: boolean; app?: { call_count?: number }; max_usage_percent?: number }>("fb_get_rate_limit_status");
+    check("usage headers reach the rate limiter", status.tracking === true && status.app?.call_count === 42 && status.max_usage_percent === 42);
+
+    const fetchBefore = globalThis.fetch;
+    const otherLimiter = new RateLimiter();
+    const otherClient = new ThrottledGraphClient({ ...graphConfig, baseUrl: mock.baseUrl, pageId: OTHER_PAGE_ID, accessToken: mock.pageToken(OTHER_PAGE_ID) }, otherLimiter, { fetch: mock.fetch });
+    await call("fb_get_page_info");
+    check("a limiter only sees its own client's responses", otherLimiter.status().app === undefined && globalThis.fetch === fetchBefore);
+    await otherClient.request({ method: "GET", endpoint: OTHER_PAGE_ID });
+    check("each client feeds its own limiter", otherLimiter.status().app?.call_count === 42);
+    mock.setUsage({});
+    check("access tokens never sent in URLs or bodies", graphRequests.length > 0 && graphRequests.every(({ url, body }) =>
+        !url.includes("access_token=") && !body.includes("access_token=") && !url.includes(mock.pageToken(PAGE_ID))));
+
+    mock.failNext({ path: PAGE_ID, error: { code: 190, error_subcode: 463, message: "Error validating access token: Session has expired" } });
+    const expired = await call("fb_get_page_info");
+    check("expired token error is classified", expired.error?.type === "token_expired" && expired.error.retryable === false);
+
+    mock.failNext({ method: "POST", path: `${PAGE_ID}/feed`, error: { code: 2, message: "Service temporarily unavailable", is_transient: true } });
+    const transient = await call("fb_create_post", { message: "Retry me" });
+    check("transient error is retryable", transient.error?.type === "transient" && transient.error.retryable === true);
+
+    mock.failNext({ method: "POST", path: `${PAGE_ID}/feed`, error: { code: 4, message: "(#4) Application request limit reached" } });
+    const throttledAttempts = mock.requestsTo(`${PAGE_ID}/feed`, "POST").length;
+    const throttled = await call("fb_create_post", { message: "Throttled once" });
+    check("throttled call is retried by the rate limiter",
+        typeof throttled.id === "string" && mock.requestsTo(`${PAGE_ID}/feed`, "POST").length === throttledAttempts + 2);
+
+    const missing = await call("fb_delete_post", { post_id: `${PAGE_ID}_404` });
+    check("unknown object is an invalid parameter", missing.error?.type === "invalid_parameter");
+
+    // 9. Access, batch, approval and audit
+    console.log("\n9. Access, batch, approval and audit");
+    const access = await call<{ valid?: boolean; type?: string; missing_scopes?: string[] }>("fb_check_access");
+    check("page token is valid with every scope", access.valid === true && access.type === "PAGE" && access.missing_scopes?.length === 0);
+
+    const batch = await call<BatchResult<{ id?: string; name?: string }>>("fb_batch", {
+        operations: [
+            { method: "GET", relative_url: `${PAGE_ID}?fields=name` },
+            { method: "POST", relative_url: `${PAGE_ID}/feed`, body: { message: "From batch" }, name: "created" },
+            { method: "GET", relative_url: "{result=created:$.id}?fields=message" },
+            { method: "GET", relative_url: `${PAGE_ID}_404` },
+        ],
+        include_headers: true,
+    });
+    const [pageItem, createdItem, readBack, missingItem] = batch.results ?? [];
+    check("batch returns parsed per-item results",
+        batch.results?.length === 4 && pageItem?.status === 200 && pageItem.body?.name === "Mock Page"
+        && pageItem.headers?.["Content-Type"]?.startsWith("application/json") === true);
+    check("JSONPath references resolve to earlier results",
+        typeof createdItem?.body?.id === "string" && readBack?.body?.id === createdItem.body.id);
+    check("failed items carry a typed error", missingItem?.status === 400 && missingItem.error?.type === "invalid_parameter" && batch.failed === 1);
+
+    const requestsBefore = mock.requestsTo("", "POST").length;
+    const chained = await manager.batchRequest([
+        ...Array.from({ length: 45 }, (_, index) => ({ method: "GET" as const, relative_url: `${PAGE_ID}?fields=id&n=${index}` })),
+        { method: "POST", relative_url: `${PAGE_ID}/feed`, body: { message: "Chained" }, name: "chain" },
+        ...Array.from({ length: 9 }, () => ({ method: "GET" as const, relative_url: "{result=chain:$.id}", depends_on: "chain" })),
+    ]);
+    check("over 50 operations are split without breaking dependencies",
+        chained.requests === 2 && mock.requestsTo("", "POST").length === requestsBefore + 2
+        && chained.failed === 0 && chained.results.slice(46).every((item) => item.status === 200));
+
+    mock.failNext({ method: "POST", path: `${PAGE_ID}/feed`, error: { code: 2, message: "Service temporarily unavailable", is_transient: true } });
+    const feedWritesBefore = mock.requestsTo(`${PAGE_ID}/feed`, "POST").length;
+    const retried = await manager.batchRequest([
+        { method: "GET", relative_url: `${PAGE_ID}?fields=name` },
+        { method: "POST", relative_url: `${PAGE_ID}/feed`, body: { message: "Flaky" }, name: "flaky" },
+        { method: "POST", relative_url: "{result=flaky:$.id}/comments", body: { message: "Follow-up" } },
+        { method: "GET", relative_url: `${PAGE_ID}_404` },
+    ], { retry_delay_ms: 0, retry_writes: true });
+    check("transient failures and their dependents are resent alone",
+        retried.requests === 2 && retried.results[0]?.attempts === 1 && retried.results[1]?.attempts === 2
+        && retried.results[2]?.status === 200 && retried.results[3]?.attempts === 1 && retried.failed === 1
+        && mock.requestsTo(`${PAGE_ID}/feed`, "POST").length === feedWritesBefore + 2);
+
+    mock.failNext({ method: "POST", path: `${PAGE_ID}/feed`, error: { code: 2, message: "Service temporarily unavailable", is_transient: true } });
+    mock.failNext({ method: "GET", path: PAGE_ID, error: { code: 2, message: "Service temporarily unavailable", is_transient: true } });
+    const writesOnce = await manager.batchRequest([
+        { method: "POST", relative_url: `${PAGE_ID}/feed`, body: { message: "Maybe posted" } },
+        { method: "GET", relative_url: `${PAGE_ID}?fields=name` },
+    ], { retry_delay_ms: 0 });
+    check("writes are not resent unless retry_writes is set",
+        writesOnce.results[0]?.attempts === 1 && writesOnce.results[0]?.error?.type === "transient"
+        && writesOnce.results[1]?.attempts === 2 && writesOnce.results[1]?.status === 200);
+
+    mock.failNext({ method: "GET", path: `${PAGE_ID}/feed`, error: { code: 2, message: "Service temporarily unavailable", is_transient: true } });
+    const overridden = await manager.batchRequest([
+        { method: "GET", relative_url: `${PAGE_ID}/feed?method=POST&message=Override` },
+    ], { retry_delay_ms: 0 });
+    const readGate = new ApprovalGate();
+    check("a GET with a method= override counts as a write",
+        overridden.results[0]?.attempts === 1 && overridden.results[0]?.error?.type === "transient"
+        && readGate.requiresApproval("fb_batch", PAGE_ID, { operations: [{ method: "GET", relative_url: `${PAGE_ID}/feed?Method=post` }] })
+        && !readGate.requiresApproval("fb_batch", PAGE_ID, { operations: [{ method: "GET", relative_url: `${PAGE_ID}?fields=name` }] }));
+
+    // Graph answers null for items it did not get to, not only for omitted bodies
+    const dropItems: typeof fetch = async (input, init) => {
+        const response = await mock.fetch(input, init);
+        const items = (await response.json()) as unknown[];
+        return new Response(JSON.stringify(items.map(() => null)), { status: response.status, headers: response.headers });
+    };
+    const dropping = new ThrottledGraphClient({ ...graphConfig, baseUrl: mock.baseUrl, pageId: PAGE_ID, accessToken: mock.pageToken(PAGE_ID) }, new RateLimiter(), { fetch: dropItems });
+    const unanswered = await executeBatch(dropping, [
+        { method: "POST", relative_url: `${PAGE_ID}/feed`, body: { message: "Lost" } },
+        { method: "POST", relative_url: `${PAGE_ID}/feed`, body: { message: "Quiet" }, omit_response_on_success: true },
+    ], { retry_delay_ms: 0 });
+    check("a null item counts as omitted only with omit_response_on_success",
+        unanswered.results[0]?.status === null && unanswered.results[0]?.skipped === "No response from Graph" && !unanswered.results[0]?.omitted
+        && unanswered.results[1]?.omitted === true && unanswered.failed === 1);
+    const unansweredRead = await executeBatch(dropping, [
+        { method: "GET", relative_url: `${PAGE_ID}?fields=name` },
+        { method: "POST", relative_url: `${PAGE_ID}/feed`, body: { message: "Not resent" } },
+    ], { retry_delay_ms: 0, max_retries: 1 });
+    check("an unanswered GET is resent, an unanswered write is not",
+        unansweredRead.results[0]?.attempts === 2 && unansweredRead.results[1]?.attempts === 1 && unansweredRead.requests === 2);
+
+    mock.failNext({ method: "POST", path: `${PAGE_ID}/feed`, error: { code: 200, message: "(#200) Permissions error" } });
+    const skipped = await manager.batchRequest([
+        { method: "POST", relative_url: `${PAGE_ID}/feed`, body: { message: "Denied" }, name: "denied" },
+        { method: "GET", relative_url: "{result=denied:$.id}" },
+    ], { retry_delay_ms: 0 });
+    check("dependents of a permanent failure are skipped, not retried",
+        skipped.requests === 1 && skipped.results[0]?.error?.type === "permission" && skipped.results[1]?.skipped !== undefined);
+
+    const hostGate = new ApprovalGate();
+    const hostApproved = createToolRegistry(manager, { approval: hostGate });
+    const heldReply = (await hostApproved.handlers.fb_reply_comment({ comment_id: comment.id, message: "Held reply" })) as { action_token?: string };
+    const selfApproval = (await hostApproved.handlers.fb_approve_action({ action_token: heldReply.action_token })) as { error?: { type?: string } };
+    check("approval tools are hidden from the model by default",
+        !hostApproved.definitions.some((definition) => definition.name === "fb_approve_action" || definition.name === "fb_reject_action")
+        && selfApproval.error?.type === "validation" && hostGate.list().length === 1);
+    hostGate.reject(heldReply.action_token!);
+
+    const pending = (await gated.handlers.fb_delete_post({ post_id: post.id })) as { status?: string; action_token?: string };
+    check("gated delete waits for approval", pending.status === "pending_approval" && mock.state.posts.has(post.id));
+    covered.add("fb_approve_action");
+    await gated.handlers.fb_approve_action({ action_token: pending.action_token });
+    check("approved delete runs", !mock.state.posts.has(post.id));
+
+    const pendingMessage = (await gated.handlers.fb_send_message({ user_id: "5000000002", message: "Held" })) as { action_token?: string };
+    covered.add("fb_reject_action");
+    const rejected = (await gated.handlers.fb_reject_action({ action_token: pendingMessage.action_token, reason: "Off-brand" })) as { status?: string };
+    check("rejected message is never sent",
+        rejected.status === "rejected" && !recent.messages.some((message) => message.message === "Held"));
+
+    const auditEntries = await call<AuditEntry[]>("fb_get_audit_log", { tool: "fb_create_post" });
+    const batchAudit = await call<AuditEntry[]>("fb_get_audit_log", { tool: "fb_batch" });
+    check("batch writes are audited with the ids they created",
+        batchAudit.some((entry) => createdItem?.body?.id !== undefined && entry.response_ids.includes(createdItem.body.id)));
+    check("writes are audited", auditEntries.some((entry) => entry.outcome === "success") && auditEntries.some((entry) => entry.outcome === "failure"));
+    check("audit sink holds every write", (await auditSink.query({ limit: 500 })).length > auditEntries.length);
+
+    // 10. Coverage
+    console.log("\n10. Coverage");
+    const untested = (Object.keys(toolSchemas) as ToolName[]).filter((name) => !covered.has(name));
+    check(`every tool exercised${untested.length ? ` (missing: ${untested.join(", ")})` : ""}`, untested.length === 0);
+
+    mock.uninstall();
+    console.log(`\n${failures === 0 ? "✅ All checks passed" : `❌ ${failures} check(s) failed`}`);
+    process.exit(failures > 0 ? 1 : 0);
+}
+
+runOfflineTest().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
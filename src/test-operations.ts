@@ -1,14 +1,25 @@
 /**
  * Interactive operations test for MetaMCP (Consolidated Tools)
  * Tests real operations on the Facebook page
+ *
+ * GRAPH_FIXTURES=record saves the run to GRAPH_FIXTURES_FILE (tokens and
+ * personal data redacted); GRAPH_FIXTURES=replay runs it again offline.
  */
 import { GraphApiClient, graphConfig } from "@meta-mcp/core";
 
+import { FixtureMismatchError, GraphFixtures } from "./fixtures.js";
 import { FacebookManager } from "./manager.js";
 
-const manager = new FacebookManager(new GraphApiClient(graphConfig), graphConfig.pageId);
+/** The steps below report errors and carry on, but a fixture mismatch must fail the run */
+const failOnMismatch = (error: unknown): void => {
+    if (error instanceof FixtureMismatchError) process.exitCode = 1;
+};
 
 async function testOperations() {
+    const fixtures = await GraphFixtures.fromEnv({ pageId: graphConfig.pageId });
+    const client = new GraphApiClient(graphConfig);
+    const manager = new FacebookManager(fixtures?.client(client) ?? client, graphConfig.pageId);
+
     console.log("╔══════════════════════════════════════════════════════════════╗");
     console.log("║     MetaMCP Interactive Operations Test (Consolidated)       ║");
     console.log("╚══════════════════════════════════════════════════════════════╝\n");
@@ -57,6 +68,7 @@ async function testOperations() {
                 console.log("   ✓ All insights retrieved:");
                 console.log(JSON.stringify(insights, null, 2).split('\n').map(l => '   ' + l).join('\n'));
             } catch (e) {
+                failOnMismatch(e);
                 console.log(`   ✗ ${e instanceof Error ? e.message : e}`);
             }
 
@@ -67,6 +79,7 @@ async function testOperations() {
                 console.log("   ✓ Specific insights retrieved:");
                 console.log(JSON.stringify(specific, null, 2).split('\n').map(l => '   ' + l).join('\n'));
             } catch (e) {
+                failOnMismatch(e);
                 console.log(`   ✗ ${e instanceof Error ? e.message : e}`);
             }
 
@@ -82,6 +95,7 @@ async function testOperations() {
                 );
                 console.log("   ✓ Post created:", JSON.stringify(newPost));
             } catch (e) {
+                failOnMismatch(e);
                 const msg = e instanceof Error ? e.message : String(e);
                 if (msg.includes("pages_manage_posts")) {
                     console.log("   ⚠️ Skipped: requires pages_manage_posts permission");
@@ -91,10 +105,18 @@ async function testOperations() {
             }
         }
     } catch (e) {
+        failOnMismatch(e);
         console.log(`   ✗ Error: ${e instanceof Error ? e.stack : e}`);
     }
+    if (fixtures) {
+        await fixtures.save();
+        console.log(`\n🎞️ ${fixtures.mode === "record" ? `Recorded ${fixtures.pending} request(s) to` : "Replayed"} ${fixtures.file}`);
+    }
     console.log("\n" + "═".repeat(64));
     console.log("Test complete!");
 }
 
-testOperations().catch(console.error);
+testOperations().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
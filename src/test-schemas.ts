@@ -27,7 +27,7 @@ async function runSchemaTest() {
         link: "https://example.com",
         place: "123456789",
         published: false,
-        scheduled_publish_time: 1735689600
+        scheduled_publish_time: Math.floor(Date.now() / 1000) + 3600
     };
 
     try {
@@ -0,0 +1,70 @@
+/**
+ * Tool surface parity test for MetaMCP
+ * Fails if the MCP registry and the Vercel AI SDK tools drift apart
+ */
+import { graphConfig, GraphApiClient } from "@meta-mcp/core";
+import { createAiSdkTools } from "./ai-sdk.js";
+import { FacebookManager } from "./manager.js";
+import { createToolRegistry, exposedToolNames } from "./toolRegistry.js";
+import { approvalTools, toolDescriptions, toolPermissions, toolSchemas } from "./toolSchemas.js";
+
+let failures = 0;
+
+function check(name: string, condition: boolean): void {
+    console.log(`   ${condition ? "✓" : "✗"} ${name}`);
+    if (!condition) failures++;
+}
+
+const sameNames = (a: string[], b: string[]) =>
+    a.length === b.length && [...a].sort().every((name, i) => name === [...b].sort()[i]);
+
+async function runParityTest() {
+    console.log("🔁 Tool parity test (MCP registry vs AI SDK)\n");
+
+    // No requests are made: every call below fails validation first
+    const manager = new FacebookManager(new GraphApiClient(graphConfig), graphConfig.pageId);
+    const registry = createToolRegistry(manager, { exposeApprovalTools: true });
+    const aiTools = createAiSdkTools(manager, { exposeApprovalTools: true });
+    const schemaNames = Object.keys(toolSchemas);
+
+    // 1. Same tool names everywhere
+    console.log("1. Tool names");
+    check("registry definitions match toolSchemas", sameNames(registry.definitions.map((d) => d.name), schemaNames));
+    check("registry handlers match toolSchemas", sameNames(Object.keys(registry.handlers), schemaNames));
+    check("AI SDK tools match toolSchemas", sameNames(Object.keys(aiTools), schemaNames));
+    check("every tool has a description", sameNames(Object.keys(toolDescriptions), schemaNames));
+    check("every tool lists its permissions", sameNames(Object.keys(toolPermissions), schemaNames));
+    const modelNames = exposedToolNames();
+    check("approval tools are hidden on both surfaces by default",
+        modelNames.every((name) => !approvalTools.has(name)) && modelNames.length === schemaNames.length - approvalTools.size
+        && sameNames(createToolRegistry(manager).definitions.map((d) => d.name), modelNames)
+        && sameNames(Object.keys(createAiSdkTools(manager)), modelNames));
+
+    // 2. Same descriptions and parameters
+    console.log("\n2. Descriptions and parameters");
+    for (const name of schemaNames as (keyof typeof toolSchemas)[]) {
+        const definition = registry.definitions.find((d) => d.name === name);
+        const aiTool = aiTools[name];
+        check(`${name} description`, definition?.description === aiTool?.description);
+        check(`${name} parameters`, aiTool?.parameters === toolSchemas[name]);
+    }
+
+    // 3. Same behaviour: invalid arguments produce the same structured error
+    console.log("\n3. Error results");
+    // Models can send arguments that break the schema, so {} is passed untyped
+    const invalid = {} as never;
+    for (const name of ["fb_delete_post", "fb_send_message", "fb_undo"] as const) {
+        const fromRegistry = await registry.handlers[name]({});
+        const fromAiSdk = await aiTools[name].execute(invalid, { toolCallId: "parity", messages: [] });
+        check(`${name} rejects {} identically`, JSON.stringify(fromRegistry) === JSON.stringify(fromAiSdk)
+            && (fromRegistry as { error?: { type?: string } }).error?.type === "validation");
+    }
+
+    console.log(`\n${failures === 0 ? "✅ All checks passed" : `❌ ${failures} check(s) failed`}`);
+    process.exit(failures > 0 ? 1 : 0);
+}
+
+runParityTest().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
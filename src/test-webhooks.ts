@@ -0,0 +1,170 @@
+/**
+ * Offline webhook test for MetaMCP
+ * Replays recorded feed and Messenger payloads through the WebhookReceiver
+ */
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { signWebhookPayload, WebhookReceiver, WebhookSignatureError, type WebhookEvent } from "./webhooks.js";
+
+const APP_SECRET = "test-app-secret";
+const VERIFY_TOKEN = "test-verify-token";
+
+// Recorded notification bodies (ids anonymized)
+const recordedPayloads = {
+    comment: {
+        object: "page",
+        entry: [{
+            id: "1000000001",
+            time: 1735689600,
+            changes: [{
+                field: "feed",
+                value: {
+                    from: { id: "2000000001", name: "Test User" },
+                    post: { status_type: "added_photos", is_published: true },
+                    message: "Great post!",
+                    post_id: "1000000001_3000000001",
+                    comment_id: "3000000001_4000000001",
+                    created_time: 1735689600,
+                    item: "comment",
+                    parent_id: "1000000001_3000000001",
+                    verb: "add",
+                },
+            }],
+        }],
+    },
+    reaction: {
+        object: "page",
+        entry: [{
+            id: "1000000001",
+            time: 1735689700,
+            changes: [{
+                field: "feed",
+                value: {
+                    from: { id: "2000000002", name: "Other User" },
+                    post_id: "1000000001_3000000001",
+                    created_time: 1735689700,
+                    item: "reaction",
+                    parent_id: "1000000001_3000000001",
+                    reaction_type: "love",
+                    verb: "add",
+                },
+            }],
+        }],
+    },
+    message: {
+        object: "page",
+        entry: [{
+            id: "1000000001",
+            time: 1735689800,
+            messaging: [{
+                sender: { id: "5000000001" },
+                recipient: { id: "1000000001" },
+                timestamp: 1735689800123,
+                message: {
+                    mid: "m_abc123",
+                    text: "Hi, are you open today?",
+                    quick_reply: { payload: "OPENING_HOURS" },
+                },
+            }],
+        }],
+    },
+};
+
+let failures = 0;
+
+function check(name: string, condition: boolean): void {
+    console.log(`   ${condition ? "✓" : "✗"} ${name}`);
+    if (!condition) failures++;
+}
+
+async function runWebhookTest() {
+    console.log("🪝 Webhook receiver test (recorded payloads)\n");
+
+    const received: WebhookEvent[] = [];
+    const receiver = new WebhookReceiver({ appSecret: APP_SECRET, verifyToken: VERIFY_TOKEN })
+        .on("*", (event) => {
+            received.push(event);
+        });
+
+    // 1. Subscription handshake
+    console.log("1. hub.challenge handshake");
+    const valid = new URLSearchParams({ "hub.mode": "subscribe", "hub.verify_token": VERIFY_TOKEN, "hub.challenge": "42" });
+    const invalid = new URLSearchParams({ "hub.mode": "subscribe", "hub.verify_token": "wrong", "hub.challenge": "42" });
+    check("valid token echoes challenge", receiver.verifyChallenge(valid) === "42");
+    check("wrong token is rejected", receiver.verifyChallenge(invalid) === undefined);
+
+    // 2. Signature validation
+    console.log("\n2. X-Hub-Signature-256 validation");
+    const body = JSON.stringify(recordedPayloads.comment);
+    try {
+        await receiver.handle(body, "sha256=deadbeef");
+        check("bad signature throws", false);
+    } catch (error) {
+        check("bad signature throws", error instanceof WebhookSignatureError);
+    }
+
+    // 3. Parsing and dispatch
+    console.log("\n3. Parsing and dispatch");
+    for (const payload of Object.values(recordedPayloads)) {
+        const raw = JSON.stringify(payload);
+        await receiver.handle(raw, signWebhookPayload(APP_SECRET, raw));
+    }
+
+    const [comment, reaction, message] = received;
+    check("comment parsed", comment?.type === "comment" && comment.comment_id === "3000000001_4000000001");
+    check("reaction parsed", reaction?.type === "reaction" && reaction.reaction_type === "love");
+    check("message parsed", message?.type === "message" && message.quick_reply_payload === "OPENING_HOURS");
+    check("only signed payloads dispatched", received.length === 3);
+
+    // 4. Node handler
+    console.log("\n4. Node HTTP handler");
+    let releaseHandler = () => {};
+    const handlerGate = new Promise<void>((resolve) => {
+        releaseHandler = resolve;
+    });
+    const handlerErrors: unknown[] = [];
+    const slowReceiver = new WebhookReceiver({
+        appSecret: APP_SECRET,
+        verifyToken: VERIFY_TOKEN,
+        maxBodyBytes: 4096,
+        onError: (error) => handlerErrors.push(error),
+    }).on("comment", async () => {
+        await handlerGate;
+        throw new Error("handler failed");
+    });
+    const server = createServer(slowReceiver.createNodeHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    try {
+        const oversized = JSON.stringify({ ...recordedPayloads.comment, padding: "x".repeat(8192) });
+        const tooLarge = await fetch(endpoint, {
+            method: "POST",
+            headers: { "X-Hub-Signature-256": signWebhookPayload(APP_SECRET, oversized) },
+            body: oversized,
+        });
+        check("oversized body gets 413", tooLarge.status === 413);
+
+        const unsigned = await fetch(endpoint, { method: "POST", headers: { "X-Hub-Signature-256": "sha256=deadbeef" }, body });
+        check("bad signature gets 403", unsigned.status === 403);
+
+        const accepted = await fetch(endpoint, {
+            method: "POST",
+            headers: { "X-Hub-Signature-256": signWebhookPayload(APP_SECRET, body) },
+            body,
+        });
+        check("verified body acknowledged before handlers finish", accepted.status === 200 && handlerErrors.length === 0);
+        releaseHandler();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        check("handler error reported after acknowledging", handlerErrors.length === 1);
+    } finally {
+        await new Promise((resolve) => server.close(resolve));
+    }
+
+    console.log(`\n${failures === 0 ? "✅ All checks passed" : `❌ ${failures} check(s) failed`}`);
+    process.exit(failures > 0 ? 1 : 0);
+}
+
+runWebhookTest().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,7 @@
+/**
+ * Test tooling, published as @meta-mcp/facebook/testing so the main entry
+ * point does not ship it: MockGraphServer, an in-process fake of the Graph
+ * API, and GraphFixtures for recording and replaying Graph traffic.
+ */
+export * from "./fixtures.js";
+export * from "./mockGraph.js";
@@ -0,0 +1,173 @@
+import type { GraphApiClient, GraphApiCollection } from "@meta-mcp/core";
+import { toFacebookError, type ToolErrorResult } from "./errors.js";
+import type { PageSummary } from "./pageRegistry.js";
+import { collectAll, paginate } from "./pagination.js";
+import { toolPermissions, type ToolName } from "./toolSchemas.js";
+
+/**
+ * Token Diagnostics
+ *
+ * Structured replacement for the debug-token script: validity, expiry, type
+ * and scopes of the configured token, the Pages it can reach, and which tools
+ * will fail for lack of a permission. Tokens never appear in the report.
+ */
+
+export interface TokenDebugInfo {
+  app_id?: string;
+  type?: string;
+  application?: string;
+  data_access_expires_at?: number;
+  expires_at?: number;
+  is_valid: boolean;
+  scopes?: string[];
+  user_id?: string;
+  profile_id?: string;
+  error?: { code: number; message: string; subcode?: number };
+}
+
+export interface ToolAccess {
+  required_scopes: readonly string[];
+  missing_scopes: string[];
+  available: boolean;
+}
+
+export interface AccessReport {
+  valid: boolean;
+  /** USER, PAGE, APP or SYSTEM_USER */
+  type: string | undefined;
+  app_id: string | undefined;
+  application: string | undefined;
+  user_id: string | undefined;
+  profile_id: string | undefined;
+  /** ISO timestamp, or null for tokens that never expire */
+  expires_at: string | null;
+  data_access_expires_at: string | null;
+  expired: boolean;
+  scopes: string[];
+  /** Scopes needed by at least one tool but not granted */
+  missing_scopes: string[];
+  tools: Record<ToolName, ToolAccess>;
+  /** Pages reachable through me/accounts (User tokens only) */
+  pages: (PageSummary & { configured: boolean })[];
+  configured_page: {
+    id: string;
+    accessible: boolean;
+    name?: string;
+    error?: ToolErrorResult["error"];
+  };
+  /** Human-readable problems and how to fix them */
+  warnings: string[];
+}
+
+export interface TokenInspectorOptions {
+  /** The token to inspect (the client's own token) */
+  accessToken: string;
+  /** Page the manager is configured for */
+  pageId: string;
+}
+
+const toIso = (unixSeconds: number | undefined) =>
+  unixSeconds ? new Date(unixSeconds * 1000).toISOString() : null;
+
+export class TokenInspector {
+  private readonly client: GraphApiClient;
+  private readonly options: TokenInspectorOptions;
+
+  constructor(client: GraphApiClient, options: TokenInspectorOptions) {
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * Raw debug_token data for the configured token.
+   * Graph only takes the inspected token as the input_token query parameter,
+   * so unlike other requests this one carries a token in its URL.
+   */
+  async debugToken(): Promise<TokenDebugInfo> {
+    const response = await this.client.request<{ data?: TokenDebugInfo }>({
+      method: "GET",
+      endpoint: "debug_token",
+      params: { input_token: this.options.accessToken },
+    });
+    return response.data ?? { is_valid: false };
+  }
+
+  async inspect(): Promise<AccessReport> {
+    const info = await this.debugToken();
+    const scopes = info.scopes ?? [];
+    const warnings: string[] = [];
+
+    const tools = Object.fromEntries(
+      (Object.entries(toolPermissions) as [ToolName, readonly string[]][]).map(([tool, required]) => {
+        const missing = required.filter((scope) => !scopes.includes(scope));
+        return [tool, { required_scopes: required, missing_scopes: missing, available: info.is_valid && missing.length === 0 }];
+      })
+    ) as Record<ToolName, ToolAccess>;
+    const missingScopes = [...new Set(Object.values(tools).flatMap((tool) => tool.missing_scopes))].sort();
+
+    const expired = info.expires_at ? info.expires_at * 1000 < Date.now() : false;
+    if (!info.is_valid) warnings.push(info.error?.message ?? "The token is not valid.");
+    if (expired) warnings.push("The token has expired; generate a new long-lived token.");
+    if (missingScopes.length) warnings.push(`Missing permissions: ${missingScopes.join(", ")}.`);
+
+    const pages = info.type === "USER" ? await this.listPages(warnings) : [];
+    const configuredPage = await this.checkConfiguredPage(info.type, warnings);
+
+    return {
+      valid: info.is_valid,
+      type: info.type,
+      app_id: info.app_id,
+      application: info.application,
+      user_id: info.user_id,
+      profile_id: info.profile_id,
+      expires_at: toIso(info.expires_at),
+      data_access_expires_at: toIso(info.data_access_expires_at),
+      expired,
+      scopes,
+      missing_scopes: missingScopes,
+      tools,
+      pages: pages.map((page) => ({ ...page, configured: page.id === this.options.pageId })),
+      configured_page: configuredPage,
+      warnings,
+    };
+  }
+
+  private async listPages(warnings: string[]): Promise<PageSummary[]> {
+    try {
+      const { data } = await collectAll(paginate((after) =>
+        this.client.request<GraphApiCollection<PageSummary>>({
+          method: "GET",
+          endpoint: "me/accounts",
+          // access_token deliberately not requested
+          params: { fields: "id,name,category,tasks", limit: 100, after },
+        })
+      ));
+      if (!data.some((page) => page.id === this.options.pageId)) {
+        warnings.push(`Configured page ${this.options.pageId} is not among the pages this user manages.`);
+      }
+      return data;
+    } catch (error) {
+      warnings.push(`Could not list pages: ${toFacebookError(error).message} (requires pages_show_list).`);
+      return [];
+    }
+  }
+
+  private async checkConfiguredPage(tokenType: string | undefined, warnings: string[]): Promise<AccessReport["configured_page"]> {
+    const id = this.options.pageId;
+    try {
+      const page = await this.client.request<{ id: string; name?: string }>({
+        method: "GET",
+        endpoint: id,
+        params: { fields: "id,name" },
+      });
+      if (tokenType === "USER") {
+        warnings.push("A User token is configured; most page tools need the Page access token from me/accounts (set USER_ACCESS_TOKEN to resolve it automatically).");
+      }
+      return { id, accessible: true, name: page.name };
+    } catch (error) {
+      const details = toFacebookError(error);
+      warnings.push(`Cannot access page ${id}: ${details.suggestedFix}`);
+      return { id, accessible: false, error: details.toJSON() };
+    }
+  }
+}
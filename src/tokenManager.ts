@@ -0,0 +1,374 @@
+import { graphConfig, GraphApiClient } from "@meta-mcp/core";
+import type { GraphApiCollection } from "@meta-mcp/core";
+import { createHash } from "node:crypto";
+import { chmod, mkdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { collectAll, paginate } from "./pagination.js";
+import type { TokenDebugInfo } from "./tokenInspector.js";
+
+/**
+ * Token Lifecycle
+ *
+ * Exchanges short-lived User tokens for long-lived ones (`fb_exchange_token`),
+ * derives Page tokens from them (Page tokens derived from a long-lived User
+ * token do not expire), persists both to a TokenStore and warns when
+ * `expires_at` or `data_access_expires_at` is near.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface StoredToken {
+  access_token: string;
+  /** Unix seconds; undefined for tokens that never expire */
+  expires_at?: number;
+  /** Unix seconds after which the token can no longer read user data */
+  data_access_expires_at?: number;
+  /** ISO timestamp of the exchange */
+  obtained_at: string;
+}
+
+export interface TokenSet {
+  user?: StoredToken;
+  pages: Record<string, StoredToken>;
+  /** SHA-256 of the initialUserToken last exchanged, to notice when it is replaced */
+  initial_user_token_sha256?: string;
+}
+
+export interface TokenStore {
+  load(): Promise<TokenSet | undefined>;
+  save(tokens: TokenSet): Promise<void>;
+}
+
+export class MemoryTokenStore implements TokenStore {
+  private tokens: TokenSet | undefined;
+
+  async load() {
+    return this.tokens;
+  }
+
+  async save(tokens: TokenSet) {
+    this.tokens = tokens;
+  }
+}
+
+/**
+ * JSON file store, readable by the owner only. Kept out of tmpdir so tokens
+ * survive reboots.
+ */
+export class FileTokenStore implements TokenStore {
+  constructor(private readonly filePath = join(homedir(), ".meta-mcp", "facebook-tokens.json")) {}
+
+  async load(): Promise<TokenSet | undefined> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8")) as TokenSet;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(tokens: TokenSet) {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+    await chmod(this.filePath, 0o600);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Token Manager
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface TokenWarning {
+  token: "user" | "page";
+  page_id?: string;
+  field: "expires_at" | "data_access_expires_at";
+  /** ISO timestamp */
+  expires_at: string;
+  expired: boolean;
+  message: string;
+}
+
+export interface TokenManagerOptions {
+  appId: string;
+  appSecret: string;
+  /** Where exchanged tokens are persisted (default: FileTokenStore) */
+  store?: TokenStore;
+  /**
+   * Short-lived User token, exchanged when the store holds none, holds an
+   * expired one, or was filled from a different initial token
+   */
+  initialUserToken?: string;
+  /** Warn when a token expires within this window (default: 7 days) */
+  warnWithinMs?: number;
+  /** Receives each expiry warning once (default: console.error, stdout carries MCP traffic) */
+  onWarning?: (warning: TokenWarning) => void;
+  /** Builds a client for a token (default: graphConfig with the token) */
+  createClient?: (accessToken: string) => GraphApiClient;
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+
+export class TokenManager {
+  private readonly appId: string;
+  private readonly appSecret: string;
+  private readonly store: TokenStore;
+  private readonly initialUserToken: string | undefined;
+  private readonly warnWithinMs: number;
+  private readonly onWarning: (warning: TokenWarning) => void;
+  private readonly createClient: (accessToken: string) => GraphApiClient;
+  private readonly warned = new Set<string>();
+  private loaded: Promise<TokenSet> | undefined;
+
+  constructor(options: TokenManagerOptions) {
+    this.appId = options.appId;
+    this.appSecret = options.appSecret;
+    this.store = options.store ?? new FileTokenStore();
+    this.initialUserToken = options.initialUserToken;
+    this.warnWithinMs = options.warnWithinMs ?? 7 * 24 * 60 * 60 * 1000;
+    this.onWarning = options.onWarning ?? ((warning) => console.error(`[meta-mcp] ${warning.message}`));
+    this.createClient = options.createClient ?? ((accessToken) => new GraphApiClient({ ...graphConfig, accessToken }));
+  }
+
+  /**
+   * Build a manager from APP_ID, APP_SECRET and USER_ACCESS_TOKEN
+   * (TOKEN_STORE_PATH overrides the store location). Returns undefined
+   * unless all three are set.
+   */
+  static fromEnv(options: Pick<TokenManagerOptions, "createClient" | "onWarning"> = {}): TokenManager | undefined {
+    const { APP_ID, APP_SECRET, USER_ACCESS_TOKEN, TOKEN_STORE_PATH } = process.env;
+    if (!APP_ID || !APP_SECRET || !USER_ACCESS_TOKEN) return undefined;
+    return new TokenManager({
+      ...options,
+      appId: APP_ID,
+      appSecret: APP_SECRET,
+      initialUserToken: USER_ACCESS_TOKEN,
+      store: new FileTokenStore(TOKEN_STORE_PATH),
+    });
+  }
+
+  /**
+   * Exchange a short-lived User token for a long-lived one (about 60 days)
+   * and re-derive every Page token from it.
+   */
+  async rotate(shortLivedUserToken: string): Promise<TokenSet> {
+    const user = await this.exchangeUserToken(shortLivedUserToken);
+    const previous = await this.store.load();
+    const tokens: TokenSet = {
+      user,
+      pages: await this.derivePageTokens(user),
+      initial_user_token_sha256: previous?.initial_user_token_sha256,
+    };
+    await this.persist(tokens);
+    this.warned.clear();
+    return tokens;
+  }
+
+  async exchangeUserToken(shortLivedUserToken: string): Promise<StoredToken> {
+    const response = await this.createClient(shortLivedUserToken).request<{ access_token: string; expires_in?: number }>({
+      method: "GET",
+      endpoint: "oauth/access_token",
+      params: {
+        grant_type: "fb_exchange_token",
+        client_id: this.appId,
+        client_secret: this.appSecret,
+        fb_exchange_token: shortLivedUserToken,
+      },
+    });
+    const info = await this.debugToken(response.access_token);
+    return {
+      access_token: response.access_token,
+      expires_at: info.expires_at || (response.expires_in ? nowSeconds() + response.expires_in : undefined),
+      data_access_expires_at: info.data_access_expires_at || undefined,
+      obtained_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Page tokens from me/accounts. When the User token is long-lived they never
+   * expire, but they share its data access expiry.
+   */
+  async derivePageTokens(user: StoredToken): Promise<Record<string, StoredToken>> {
+    const { data } = await collectAll(paginate((after) =>
+      this.createClient(user.access_token).request<GraphApiCollection<{ id: string; access_token: string }>>({
+        method: "GET",
+        endpoint: "me/accounts",
+        params: { fields: "id,access_token", limit: 100, after },
+      })
+    ));
+    const obtainedAt = new Date().toISOString();
+    return Object.fromEntries(data.map((page) => [page.id, {
+      access_token: page.access_token,
+      data_access_expires_at: user.data_access_expires_at,
+      obtained_at: obtainedAt,
+    }]));
+  }
+
+  /**
+   * Long-lived User token, exchanging initialUserToken on first use.
+   * @throws Error if no User token is stored or configured
+   */
+  async getUserToken(): Promise<string> {
+    const tokens = await this.load();
+    if (!tokens.user) {
+      throw new Error("No User token available; call rotate() with a short-lived User token or set USER_ACCESS_TOKEN");
+    }
+    return tokens.user.access_token;
+  }
+
+  /**
+   * Page token for a Page, deriving Page tokens again if it is not stored yet.
+   * @throws Error if the User does not manage the Page
+   */
+  async getPageToken(pageId: string): Promise<string> {
+    let tokens = await this.load();
+    if (!tokens.pages[pageId] && tokens.user) {
+      tokens = { ...tokens, pages: await this.derivePageTokens(tokens.user) };
+      await this.persist(tokens);
+    }
+    const page = tokens.pages[pageId];
+    if (!page) {
+      throw new Error(`No Page token for ${pageId}; the User token does not manage this Page`);
+    }
+    return page.access_token;
+  }
+
+  /**
+   * Tokens expiring within warnWithinMs (or already expired).
+   */
+  async expiryWarnings(): Promise<TokenWarning[]> {
+    return this.collectWarnings(await this.load());
+  }
+
+  /**
+   * Client whose token is resolved through this manager on every request, so
+   * it picks up rotated tokens without being rebuilt.
+   */
+  clientFor(pageId: string): GraphApiClient {
+    return new ManagedTokenClient(() => this.getPageToken(pageId), this.createClient);
+  }
+
+  /**
+   * Client authenticated with the long-lived User token.
+   */
+  userClient(): GraphApiClient {
+    return new ManagedTokenClient(() => this.getUserToken(), this.createClient);
+  }
+
+  /**
+   * Stored tokens, read once and kept in memory afterwards.
+   */
+  private async load(): Promise<TokenSet> {
+    // Concurrent first calls share one exchange; a failed exchange is retried next time
+    this.loaded ??= this.loadStored().catch((error: unknown) => {
+      this.loaded = undefined;
+      throw error;
+    });
+    const tokens = await this.loaded;
+    for (const warning of this.collectWarnings(tokens)) {
+      const key = `${warning.token}:${warning.page_id ?? ""}:${warning.field}:${warning.expired}`;
+      if (this.warned.has(key)) continue;
+      this.warned.add(key);
+      this.onWarning(warning);
+    }
+    return tokens;
+  }
+
+  /**
+   * Stored tokens, exchanging initialUserToken first when it is new or the
+   * stored User token has expired (rotating USER_ACCESS_TOKEN recovers).
+   */
+  private async loadStored(): Promise<TokenSet> {
+    const stored = await this.store.load();
+    const initial = this.initialUserToken;
+    if (!initial) return stored ?? { pages: {} };
+
+    const fingerprint = sha256(initial);
+    const expired = stored?.user?.expires_at !== undefined && stored.user.expires_at <= nowSeconds();
+    if (stored?.user && !expired && stored.initial_user_token_sha256 === fingerprint) return stored;
+
+    try {
+      const tokens = { ...(await this.rotate(initial)), initial_user_token_sha256: fingerprint };
+      await this.persist(tokens);
+      return tokens;
+    } catch (error) {
+      if (!stored?.user || expired) throw error;
+      console.error(`[meta-mcp] Could not exchange the configured User token (${error instanceof Error ? error.message : String(error)}); keeping the stored one.`);
+      return stored;
+    }
+  }
+
+  private async persist(tokens: TokenSet): Promise<void> {
+    await this.store.save(tokens);
+    this.loaded = Promise.resolve(tokens);
+  }
+
+  private collectWarnings(tokens: TokenSet): TokenWarning[] {
+    const entries: (readonly [TokenWarning["token"], string | undefined, StoredToken])[] = [
+      ...(tokens.user ? [["user", undefined, tokens.user] as const] : []),
+      ...Object.entries(tokens.pages).map(([pageId, token]) => ["page", pageId, token] as const),
+    ];
+    const warnings: TokenWarning[] = [];
+    for (const [kind, pageId, token] of entries) {
+      for (const field of ["expires_at", "data_access_expires_at"] as const) {
+        const expiresAt = token[field];
+        if (!expiresAt) continue;
+        const remainingMs = expiresAt * 1000 - Date.now();
+        if (remainingMs > this.warnWithinMs) continue;
+
+        const expired = remainingMs <= 0;
+        const subject = kind === "user" ? "User token" : `Page token for ${pageId}`;
+        const event = field === "expires_at"
+          ? (expired ? "expired" : "expires")
+          : (expired ? "lost data access" : "loses data access");
+        const when = new Date(expiresAt * 1000).toISOString();
+        warnings.push({
+          token: kind,
+          page_id: pageId,
+          field,
+          expires_at: when,
+          expired,
+          message: `${subject} ${event} at ${when}; re-authorize and call rotate() with a new User token.`,
+        });
+      }
+    }
+    return warnings;
+  }
+
+  private async debugToken(accessToken: string): Promise<TokenDebugInfo> {
+    const response = await this.createClient(`${this.appId}|${this.appSecret}`).request<{ data?: TokenDebugInfo }>({
+      method: "GET",
+      endpoint: "debug_token",
+      params: { input_token: accessToken },
+    });
+    return response.data ?? { is_valid: false };
+  }
+}
+
+type GraphRequestOptions = Parameters<GraphApiClient["request"]>[0];
+
+/**
+ * GraphApiClient that looks its token up before each request and delegates to
+ * a client built for that token.
+ */
+class ManagedTokenClient extends GraphApiClient {
+  private current: { token: string; client: GraphApiClient } | undefined;
+
+  constructor(
+    private readonly resolveToken: () => Promise<string>,
+    private readonly createClient: (accessToken: string) => GraphApiClient,
+  ) {
+    super({ ...graphConfig, accessToken: "" });
+  }
+
+  override async request<T = Record<string, unknown>>(options: GraphRequestOptions): Promise<T> {
+    const token = await this.resolveToken();
+    if (this.current?.token !== token) {
+      this.current = { token, client: this.createClient(token) };
+    }
+    return this.current.client.request<T>(options);
+  }
+}
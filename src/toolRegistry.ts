@@ -1,127 +1,458 @@
-import type { FacebookManager } from "./manager.js";
-import { toolDescriptions, toolSchemas, type ToolName } from "./toolSchemas.js";
+import type { FacebookManager, UploadProgressEvent } from "./manager.js";
+import type { ApprovalGate } from "./approval.js";
+import type { AuditLog } from "./audit.js";
+import type { DryRunResult } from "./dryRun.js";
+import { ValidationError, toToolErrorResult } from "./errors.js";
+import { collectAll } from "./pagination.js";
+import { checkPostArgs, withWarnings } from "./postValidation.js";
+import { approvalTools, MAX_FETCH_ALL_ITEMS, toolDescriptions, toolSchemas, writeTools, type ToolName } from "./toolSchemas.js";
 import { buildToolDefinitions, parseToolArgs, type ToolDefinition, type ToolHandler, type ToolRegistry } from "@meta-mcp/core";
 
 export type { ToolDefinition, ToolHandler, ToolRegistry };
 
 /**
  * Consolidated Facebook Tool Registry
- * 
- * 11 tools (down from 27):
- * - fb_create_post: Create text/image/scheduled posts
+ *
+ * Every tool accepts an optional page_id; handlers resolve it through
+ * FacebookManager.forPage() before calling the manager. Write tools also
+ * accept dry_run, which returns the Graph requests instead of sending them.
+ *
+ * createToolHandlers() is the single handler table: the MCP registry and the
+ * Vercel AI SDK tools (ai-sdk.ts) are both built from it, so a tool added to
+ * toolSchemas and here appears on both surfaces.
+ *
+ * Tools:
+ * - fb_create_post: Create text/image/multi-photo/scheduled posts (argument
+ *   combinations Graph cannot honour are rejected, see postValidation.ts)
+ * - fb_post_photo / fb_post_video / fb_post_reel: Publish photos, videos and Reels
  * - fb_update_post: Update existing post
  * - fb_delete_post: Delete a post
+ * - fb_undo: Revert the latest update or delete of a post
  * - fb_get_posts: Get page posts with pagination
+ * - fb_get_scheduled_posts / fb_reschedule_post / fb_publish_now / fb_cancel_scheduled_post:
+ *   Manage scheduled posts
  * - fb_get_comments: Get post comments
  * - fb_reply_comment: Reply to a comment
  * - fb_delete_comment: Delete a comment
+ * - fb_moderate_comment: Hide/unhide, like/unlike, edit or privately reply to a comment
  * - fb_get_insights: Get all insights (reactions, clicks, impressions)
+ * - fb_get_page_insights: Get page-level insights over a date range
+ * - fb_list_pages: List the Pages available to act on
  * - fb_get_page_info: Get page info (fan count, etc.)
  * - fb_send_message: Send DM via Messenger
+ * - fb_get_conversations / fb_get_messages: Read the Messenger inbox
+ * - fb_check_messaging_window: Check the 24-hour messaging window for a user
+ * - fb_get_rate_limit_status: Report Graph API quota usage
+ * - fb_check_access: Diagnose token validity, scopes and per-tool permissions
+ * - fb_approve_action / fb_reject_action: Resolve actions held by the approval gate
+ *   (only offered with exposeApprovalTools)
+ * - fb_get_audit_log: Query recorded writes
  * - fb_batch: Execute batch Graph API requests
  */
-export const createToolRegistry = (manager: FacebookManager): ToolRegistry<ToolName> => {
+export interface ToolRegistryOptions {
+  /** Hold destructive and public actions until they are approved */
+  approval?: ApprovalGate;
+  /**
+   * Offer fb_approve_action and fb_reject_action to the model (default:
+   * false). Without them pending actions are resolved by the host, through
+   * onApprovalRequired or ApprovalGate.approve() / reject().
+   */
+  exposeApprovalTools?: boolean;
+  /** Record every write, queryable with fb_get_audit_log */
+  audit?: AuditLog;
+}
+
+/**
+ * Build the handler for every tool: arguments are validated, gated calls go
+ * through the approval gate and failures come back as structured results.
+ */
+export const createToolHandlers = (
+  manager: FacebookManager,
+  options: ToolRegistryOptions = {},
+): Record<ToolName, ToolHandler> => {
+  const gate = options.approval;
+  const audit = options.audit;
+  const requireGate = () => {
+    if (!options.exposeApprovalTools) {
+      throw new ValidationError("Approving actions is not available to the model here", {},
+        "Ask the user to approve or reject the action in the host application.");
+    }
+    if (!gate) {
+      throw new ValidationError("No approval gate is configured", {}, "Actions run immediately here; there is nothing to approve or reject.");
+    }
+    return gate;
+  };
+
+  /**
+   * Run a write on the target Page, or return the Graph requests it would send
+   * when dry_run is set or the manager is in dry-run mode. Executed writes are
+   * recorded in the audit log.
+   */
+  const write = async (
+    tool: ToolName,
+    parsed: { page_id?: string | undefined; dry_run?: boolean | undefined },
+    action: (page: FacebookManager) => Promise<unknown>,
+  ) => {
+    const page = await manager.forPage(parsed.page_id);
+    if (parsed.dry_run ?? page.isDryRun) return page.dryRun(action);
+    if (!audit) return action(page);
+
+    const recording = page.recording();
+    const entry = { tool, page_id: page.getPageId(), args: parsed as Record<string, unknown>, requests: recording.requests };
+    try {
+      const result = await action(recording.manager);
+      await audit.record(entry, { result });
+      return result;
+    } catch (error) {
+      await audit.record(entry, { error });
+      throw error;
+    }
+  };
+
   const handlers: Record<ToolName, ToolHandler> = {
     // Create post (text, image, link, scheduled)
     fb_create_post: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_create_post, args);
-
-      // Image post
-      if (parsed.image_url) {
-        return manager.postImageToFacebook(parsed.image_url, parsed.message ?? "");
-      }
-
-      // Text/link post (optionally scheduled)
-      return manager.postToFacebook(parsed.message!, {
-        link: parsed.link,
+      const warnings = checkPostArgs(parsed.images ? "multi_photo" : parsed.image_url ? "photo" : "text", parsed);
+      const publishing = {
         place: parsed.place,
         published: parsed.published,
         scheduled_publish_time: parsed.scheduled_publish_time,
+      };
+      const result = await write("fb_create_post", parsed, async (page) => {
+        // Multi-photo post (uploaded unpublished, then attached to one feed post)
+        if (parsed.images) {
+          return page.postMultiPhotoToFacebook(parsed.message, parsed.images, publishing);
+        }
+
+        // Image post
+        if (parsed.image_url) {
+          return page.postImageToFacebook(parsed.image_url, { ...publishing, caption: parsed.message, alt_text: parsed.alt_text });
+        }
+
+        // Text/link post (optionally scheduled)
+        return page.postToFacebook(parsed.message!, { ...publishing, link: parsed.link });
       });
+      return withWarnings(result, warnings);
     },
 
     // Post Photo
     fb_post_photo: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_post_photo, args);
-      return manager.postImageToFacebook(parsed.url, parsed.caption ?? "");
+      const warnings = checkPostArgs("photo", parsed);
+      const result = await write("fb_post_photo", parsed, (page) => page.postImageToFacebook(parsed.url, {
+        caption: parsed.caption,
+        alt_text: parsed.alt_text,
+        place: parsed.place,
+        published: parsed.published,
+        scheduled_publish_time: parsed.scheduled_publish_time,
+      }));
+      return withWarnings(result, warnings);
     },
 
     // Post Video
     fb_post_video: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_post_video, args);
-      return manager.postVideoToFacebook(parsed.file_url, parsed.description, parsed.title);
+      return write("fb_post_video", parsed, async (page) => {
+        // Local file (inside uploadRoot only): chunked upload, surfacing progress in the result
+        if (parsed.file_path) {
+          const path = await page.resolveUploadPath(parsed.file_path);
+          const progress: UploadProgressEvent[] = [];
+          const result = await page.uploadVideoResumable({ type: "file", path }, {
+            description: parsed.description,
+            title: parsed.title,
+            onProgress: (event) => progress.push(event),
+          });
+          return { ...result, progress };
+        }
+
+        return page.postVideoToFacebook(parsed.file_url!, parsed.description, parsed.title);
+      });
     },
 
     // Post Reel
     fb_post_reel: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_post_reel, args);
-      return manager.postReelToFacebook(parsed.video_url, parsed.caption);
+      return write("fb_post_reel", parsed, (page) => page.postReelToFacebook({ type: "url", url: parsed.video_url }, {
+        description: parsed.description ?? parsed.caption,
+        thumb_offset: parsed.thumb_offset,
+        scheduled_publish_time: parsed.scheduled_publish_time,
+        wait_for_processing: parsed.wait_for_processing,
+      }));
     },
 
     // Update post
     fb_update_post: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_update_post, args);
-      return manager.updatePost(parsed.post_id, parsed.message);
+      return write("fb_update_post", parsed, (page) => page.updatePost(parsed.post_id, parsed.message));
     },
 
     // Delete post
     fb_delete_post: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_delete_post, args);
-      return manager.deletePost(parsed.post_id);
+      return write("fb_delete_post", parsed, (page) => page.deletePost(parsed.post_id));
+    },
+
+    // Undo post update or delete
+    fb_undo: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_undo, args);
+      return write("fb_undo", parsed, (page) => page.undo({ post_id: parsed.post_id, snapshot_id: parsed.snapshot_id }));
     },
 
     // Get page posts
     fb_get_posts: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_get_posts, args);
-      return manager.getPagePosts(parsed.limit, parsed.after, parsed.fields);
+      const page = await manager.forPage(parsed.page_id);
+      if (parsed.fetch_all || parsed.max_items) {
+        return collectAll(page.iteratePagePosts({
+          fields: parsed.fields,
+          pageSize: parsed.limit,
+          after: parsed.after,
+          maxItems: parsed.max_items ?? MAX_FETCH_ALL_ITEMS,
+        }));
+      }
+      return page.getPagePosts(parsed.limit, parsed.after, parsed.fields);
+    },
+
+    // List scheduled posts
+    fb_get_scheduled_posts: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_get_scheduled_posts, args);
+      const page = await manager.forPage(parsed.page_id);
+      return page.getScheduledPosts(parsed.limit, parsed.after, parsed.fields);
+    },
+
+    // Reschedule post
+    fb_reschedule_post: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_reschedule_post, args);
+      return write("fb_reschedule_post", parsed, (page) => page.reschedulePost(parsed.post_id, parsed.scheduled_publish_time));
     },
 
-    // Get comments with optional summary
+    // Publish scheduled post now
+    fb_publish_now: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_publish_now, args);
+      return write("fb_publish_now", parsed, (page) => page.publishPostNow(parsed.post_id));
+    },
+
+    // Cancel scheduled post
+    fb_cancel_scheduled_post: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_cancel_scheduled_post, args);
+      return write("fb_cancel_scheduled_post", parsed, (page) => page.cancelScheduledPost(parsed.post_id));
+    },
+
+    // Get comments with optional summary and reply threads
     fb_get_comments: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_get_comments, args);
-      return manager.getPostComments(parsed.post_id, parsed.limit, parsed.after, parsed.include_summary);
+      const page = await manager.forPage(parsed.page_id);
+      const query = {
+        filter: parsed.filter,
+        order: parsed.order,
+        fields: parsed.fields,
+        expand_replies: parsed.expand_replies,
+        max_depth: parsed.max_depth,
+      };
+      if (parsed.fetch_all || parsed.max_items) {
+        let summary: { total_count: number } | undefined;
+        const comments = await collectAll(page.iterateComments(parsed.post_id, {
+          ...query,
+          pageSize: parsed.limit,
+          after: parsed.after,
+          maxItems: parsed.max_items ?? MAX_FETCH_ALL_ITEMS,
+          onSummary: parsed.include_summary ? (total) => (summary = total) : undefined,
+        }));
+        return summary ? { ...comments, summary } : comments;
+      }
+      return page.getPostComments(parsed.post_id, parsed.limit, parsed.after, parsed.include_summary, query);
     },
 
     // Reply to comment
     fb_reply_comment: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_reply_comment, args);
-      return manager.replyToComment(parsed.comment_id, parsed.message);
+      return write("fb_reply_comment", parsed, (page) => page.replyToComment(parsed.comment_id, parsed.message));
     },
 
     // Delete comment
     fb_delete_comment: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_delete_comment, args);
-      return manager.deleteComment(parsed.comment_id);
+      return write("fb_delete_comment", parsed, (page) => page.deleteComment(parsed.comment_id));
+    },
+
+    // Moderate comment (hide, like, edit, private reply)
+    fb_moderate_comment: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_moderate_comment, args);
+      return write("fb_moderate_comment", parsed, (page) => page.moderateComment(parsed.comment_id, parsed.action, parsed.message));
     },
 
     // Get insights (all metrics or specific ones)
     fb_get_insights: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_get_insights, args);
-      return manager.getInsights(parsed.post_id, parsed.metrics);
+      const page = await manager.forPage(parsed.page_id);
+      return page.getInsights(parsed.post_id, parsed.metrics);
+    },
+
+    // Get page insights time series
+    fb_get_page_insights: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_get_page_insights, args);
+      const page = await manager.forPage(parsed.page_id);
+      return page.getPageInsights({
+        metrics: parsed.metrics,
+        period: parsed.period,
+        since: parsed.since ? new Date(parsed.since) : undefined,
+        until: parsed.until ? new Date(parsed.until) : undefined,
+      });
+    },
+
+    // List manageable pages
+    fb_list_pages: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_list_pages, args);
+      return manager.listPages(parsed.refresh);
     },
 
     // Get page info
     fb_get_page_info: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_get_page_info, args);
-      return manager.getPageInfo(parsed.fields);
+      const page = await manager.forPage(parsed.page_id);
+      return page.getPageInfo(parsed.fields);
     },
 
     // Send message
     fb_send_message: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_send_message, args);
-      return manager.sendDmToUser(parsed.user_id, parsed.message);
+      return write("fb_send_message", parsed, (page) => page.sendMessage(parsed.user_id, parsed.content ?? { type: "text", text: parsed.message! }, {
+        messaging_type: parsed.messaging_type,
+        tag: parsed.tag,
+      }));
+    },
+
+    // List inbox conversations
+    fb_get_conversations: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_get_conversations, args);
+      const page = await manager.forPage(parsed.page_id);
+      return page.getConversations(parsed.limit, parsed.after, parsed.user_id);
+    },
+
+    // Read conversation messages
+    fb_get_messages: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_get_messages, args);
+      const page = await manager.forPage(parsed.page_id);
+      return page.getConversationMessages(parsed.conversation_id, parsed.limit, parsed.after);
+    },
+
+    // Check 24-hour messaging window
+    fb_check_messaging_window: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_check_messaging_window, args);
+      const page = await manager.forPage(parsed.page_id);
+      return page.getMessagingWindow(parsed.user_id);
+    },
+
+    // Rate limit status
+    fb_get_rate_limit_status: async (args) => {
+      parseToolArgs(toolSchemas.fb_get_rate_limit_status, args);
+      return manager.getRateLimitStatus();
+    },
+
+    // Token diagnostics
+    fb_check_access: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_check_access, args);
+      const page = await manager.forPage(parsed.page_id);
+      return page.checkAccess();
+    },
+
+    // Approval gate
+    fb_approve_action: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_approve_action, args);
+      return requireGate().approve(parsed.action_token);
+    },
+
+    fb_reject_action: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_reject_action, args);
+      return requireGate().reject(parsed.action_token, parsed.reason);
+    },
+
+    // Audit log
+    fb_get_audit_log: async (args) => {
+      const parsed = parseToolArgs(toolSchemas.fb_get_audit_log, args);
+      if (!audit) {
+        throw new ValidationError("No audit log is configured", {}, "Pass an AuditLog to createToolRegistry to record writes.");
+      }
+      return audit.query({
+        tool: parsed.tool,
+        page_id: parsed.page_id,
+        outcome: parsed.outcome,
+        since: parsed.since ? new Date(parsed.since) : undefined,
+        limit: parsed.limit,
+      });
     },
 
     // Batch requests
     fb_batch: async (args) => {
       const parsed = parseToolArgs(toolSchemas.fb_batch, args);
-      return manager.batchRequest(parsed.operations, parsed.include_headers);
+      return write("fb_batch", parsed, (page) => page.batchRequest(parsed.operations, {
+        include_headers: parsed.include_headers,
+        max_retries: parsed.max_retries,
+        retry_writes: parsed.retry_writes,
+      }));
     },
   };
 
-  const definitions = buildToolDefinitions(toolSchemas, toolDescriptions) as ToolDefinition<ToolName>[];
+  return withErrorResults(gate ? withApproval(handlers, gate, manager) : handlers);
+};
+
+/**
+ * Tools offered to the model: every tool except the approval tools, unless
+ * the host opts in to those.
+ */
+export const exposedToolNames = (options: ToolRegistryOptions = {}): ToolName[] =>
+  (Object.keys(toolSchemas) as ToolName[]).filter((name) => options.exposeApprovalTools || !approvalTools.has(name));
 
-  return { definitions, handlers };
+export const createToolRegistry = (manager: FacebookManager, options: ToolRegistryOptions = {}): ToolRegistry<ToolName> => {
+  const exposed = new Set(exposedToolNames(options));
+  const definitions = (buildToolDefinitions(toolSchemas, toolDescriptions) as ToolDefinition<ToolName>[])
+    .filter((definition) => exposed.has(definition.name));
+
+  return { definitions, handlers: createToolHandlers(manager, options) };
 };
 
+/**
+ * Route gated calls through the approval gate with a dry-run preview.
+ * Only write tools can be gated, and explicit dry runs never are.
+ */
+const withApproval = (
+  handlers: Record<ToolName, ToolHandler>,
+  gate: ApprovalGate,
+  manager: FacebookManager,
+): Record<ToolName, ToolHandler> =>
+  Object.fromEntries(
+    (Object.entries(handlers) as [ToolName, ToolHandler][]).map(([tool, handler]) => [
+      tool,
+      async (args: unknown) => {
+        const input = (args ?? {}) as Record<string, unknown>;
+        const pageId = typeof input.page_id === "string" ? input.page_id : manager.getPageId();
+        if (input.dry_run || !writeTools.has(tool) || !gate.requiresApproval(tool, pageId, input)) {
+          return handler(args);
+        }
+
+        const preview = (await handler({ ...input, dry_run: true })) as DryRunResult;
+        return gate.submit({ tool, page_id: pageId, args: input, preview }, () => handler(args));
+      },
+    ])
+  ) as Record<ToolName, ToolHandler>;
+
+/**
+ * Return failures as structured results (type, retryable, suggested_fix) the
+ * model can act on, instead of raw exceptions.
+ */
+const withErrorResults = <T extends string>(handlers: Record<T, ToolHandler>): Record<T, ToolHandler> =>
+  Object.fromEntries(
+    Object.entries<ToolHandler>(handlers).map(([name, handler]) => [
+      name,
+      async (args: unknown) => {
+        try {
+          return await handler(args);
+        } catch (error) {
+          return toToolErrorResult(error);
+        }
+      },
+    ])
+  ) as Record<T, ToolHandler>;
+
 export type FacebookToolRegistry = ToolRegistry<ToolName>;
@@ -7,7 +7,7 @@ import { z } from "zod";
  * - Group related operations into single tools with parameters
  * - Use enums for action variants instead of separate tools
  * - Batch operations supported via fb_batch
- * - ~10 tools instead of 27
+ * - One tool per capability instead of the original 27 single-purpose tools
  */
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -19,19 +19,120 @@ const commentIdSchema = z.string().min(1).describe("Facebook comment ID");
 const messageSchema = z.string().min(1).describe("Message text");
 const userIdSchema = z.string().min(1).describe("Facebook user ID");
 
+// Meta only accepts scheduled times between 10 minutes and 75 days from now
+const MIN_SCHEDULE_LEAD_SECONDS = 10 * 60;
+const MAX_SCHEDULE_LEAD_SECONDS = 75 * 24 * 60 * 60;
+
+const scheduledPublishTimeSchema = z.number().int().refine(
+  (timestamp) => {
+    const lead = timestamp - Math.floor(Date.now() / 1000);
+    return lead >= MIN_SCHEDULE_LEAD_SECONDS && lead <= MAX_SCHEDULE_LEAD_SECONDS;
+  },
+  { message: "scheduled_publish_time must be between 10 minutes and 75 days from now" }
+);
+
+// Every tool can target any Page the configured user manages
+const pageScopeSchema = {
+  page_id: z.string().min(1).optional().describe("Page to act on (default: the configured page). See fb_list_pages."),
+};
+
+const dryRunSchema = {
+  dry_run: z.boolean().optional().describe("Return the Graph requests this call would send instead of executing it"),
+};
+
 const paginationSchema = {
   limit: z.number().int().min(1).max(100).optional().default(25).describe("Max items to return"),
   after: z.string().optional().describe("Pagination cursor for next page"),
 };
 
+// Follow cursors server-side instead of returning a single page
+export const MAX_FETCH_ALL_ITEMS = 5000;
+
+const fetchAllSchema = {
+  fetch_all: z.boolean().optional().default(false).describe(`Follow pagination and return every item (capped at ${MAX_FETCH_ALL_ITEMS})`),
+  max_items: z.number().int().min(1).max(MAX_FETCH_ALL_ITEMS).optional().describe("Follow pagination until this many items are collected"),
+};
+
+// Split into batches of 50 by executeBatch
+const MAX_BATCH_OPERATIONS = 500;
+
 const batchOperationSchema = z.object({
   method: z.enum(["GET", "POST", "DELETE", "PATCH"]),
   relative_url: z.string().min(1),
   body: z.record(z.string(), z.string()).optional(),
-  name: z.string().optional().describe("Name for referencing in dependent requests"),
+  name: z.string().optional().describe("Name for referencing in dependent requests, e.g. {result=name:$.id}"),
+  depends_on: z.string().optional().describe("Name of an earlier operation that must succeed first"),
   omit_response_on_success: z.boolean().optional(),
 });
 
+const commentFieldSchema = z.enum([
+  "attachment",
+  "like_count",
+  "comment_count",
+  "is_hidden",
+  "parent",
+  "permalink_url",
+]);
+
+const altTextSchema = z.string().min(1).optional().describe("Alt text describing the photo for screen readers");
+
+const albumImageSchema = z.object({
+  url: z.string().url().describe("Image URL"),
+  caption: z.string().optional().describe("Caption for this photo"),
+  alt_text: altTextSchema,
+});
+
+// Messenger Send API content
+const quickReplySchema = z.discriminatedUnion("content_type", [
+  z.object({
+    content_type: z.literal("text"),
+    title: z.string().min(1).max(20),
+    payload: z.string().min(1).max(1000),
+    image_url: z.string().url().optional(),
+  }),
+  z.object({ content_type: z.literal("user_phone_number") }),
+  z.object({ content_type: z.literal("user_email") }),
+]);
+
+const messengerButtonSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("web_url"), title: z.string().min(1).max(20), url: z.string().url() }),
+  z.object({ type: z.literal("postback"), title: z.string().min(1).max(20), payload: z.string().min(1).max(1000) }),
+  z.object({ type: z.literal("phone_number"), title: z.string().min(1).max(20), payload: z.string().min(1).describe("Phone number in +E.164 format") }),
+]);
+
+const quickRepliesSchema = z.array(quickReplySchema).max(13).optional().describe("Quick reply chips shown under the message");
+
+const messengerContentSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string().min(1).max(2000), quick_replies: quickRepliesSchema }),
+  z.object({ type: z.literal("image"), url: z.string().url(), quick_replies: quickRepliesSchema }),
+  z.object({ type: z.literal("video"), url: z.string().url(), quick_replies: quickRepliesSchema }),
+  z.object({ type: z.literal("audio"), url: z.string().url(), quick_replies: quickRepliesSchema }),
+  z.object({ type: z.literal("file"), url: z.string().url(), quick_replies: quickRepliesSchema }),
+  z.object({
+    type: z.literal("button_template"),
+    text: z.string().min(1).max(640),
+    buttons: z.array(messengerButtonSchema).min(1).max(3),
+  }),
+  z.object({
+    type: z.literal("generic_template"),
+    elements: z.array(z.object({
+      title: z.string().min(1).max(80),
+      subtitle: z.string().max(80).optional(),
+      image_url: z.string().url().optional(),
+      default_action_url: z.string().url().optional(),
+      buttons: z.array(messengerButtonSchema).max(3).optional(),
+    })).min(1).max(10),
+  }),
+  z.object({ type: z.literal("sender_action"), action: z.enum(["typing_on", "typing_off", "mark_seen"]) }),
+]).describe("Rich message content, discriminated by type");
+
+const messageTagSchema = z.enum([
+  "CONFIRMED_EVENT_UPDATE",
+  "POST_PURCHASE_UPDATE",
+  "ACCOUNT_UPDATE",
+  "HUMAN_AGENT",
+]);
+
 // Insight metrics available in Graph API v24.0+
 const insightMetricSchema = z.enum([
   "post_impressions_unique",
@@ -44,48 +145,93 @@ const insightMetricSchema = z.enum([
   "post_reactions_anger_total",
 ]).describe("Insight metric to retrieve");
 
+// Page-level insight metrics
+const pageInsightMetricSchema = z.enum([
+  "page_follows",
+  "page_daily_follows_unique",
+  "page_daily_unfollows_unique",
+  "page_impressions",
+  "page_impressions_unique",
+  "page_post_engagements",
+  "page_views_total",
+  "page_video_views",
+]).describe("Page insight metric to retrieve");
+
 // ─────────────────────────────────────────────────────────────────────────────
-// Consolidated Tool Schemas (11 tools)
+// Consolidated Tool Schemas
 // ─────────────────────────────────────────────────────────────────────────────
 
 export const toolSchemas = {
   /**
-   * Create a post (text, image, link, or scheduled)
+   * Create a post (text, image, multi-photo, link, or scheduled)
    * Consolidates: fb_post_to_facebook, fb_post_image_to_facebook, fb_schedule_post
    */
   fb_create_post: z.object({
-    message: messageSchema.optional().describe("Post text (required unless image_url provided)"),
+    ...pageScopeSchema,
+    ...dryRunSchema,
+    message: messageSchema.optional().describe("Post text (required unless image_url or images provided)"),
     image_url: z.string().url().optional().describe("Image URL to post as photo"),
-    link: z.string().url().optional().describe("URL to attach to the post"),
+    alt_text: altTextSchema.describe("Alt text for image_url (set it per image when using images)"),
+    images: z.array(albumImageSchema).min(2).optional().describe("Several photos to attach to one post (album-style)"),
+    link: z.string().url().optional().describe("URL to attach to the post (not available on photo posts)"),
     place: z.string().optional().describe("Page ID of location to associate"),
-    published: z.boolean().optional().default(true).describe("Publish immediately (true) or draft/schedule (false)"),
-    scheduled_publish_time: z.number().int().optional().describe("Unix timestamp for scheduling (requires published: false)"),
+    published: z.boolean().optional().describe("Publish immediately (default) or create unpublished (false)"),
+    scheduled_publish_time: scheduledPublishTimeSchema.optional().describe("Unix timestamp for scheduling, 10 minutes to 75 days ahead (the post stays unpublished until then)"),
   }).refine(
-    (data) => data.message || data.image_url || data.link,
-    { message: "Either message, image_url, or link is required" }
+    (data) => data.message || data.image_url || data.images || data.link,
+    { message: "Either message, image_url, images, or link is required" }
+  ).refine(
+    (data) => !(data.images && (data.image_url || data.link)),
+    { message: "images cannot be combined with image_url or link" }
   ),
 
   fb_post_photo: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
     url: z.string().url().describe("The URL of the photo to publish"),
     caption: z.string().optional().describe("The caption for the photo"),
-    published: z.boolean().optional().default(true).describe("Publish immediately (true) or draft (false)"),
+    alt_text: altTextSchema,
+    place: z.string().optional().describe("Page ID of location to tag"),
+    published: z.boolean().optional().describe("Publish immediately (default) or upload without showing it on the Page (false)"),
+    scheduled_publish_time: scheduledPublishTimeSchema.optional().describe("Unix timestamp to publish the photo at, 10 minutes to 75 days ahead"),
   }),
 
+  /**
+   * Publish a video from a public URL or a local file (chunked, resumable upload)
+   */
   fb_post_video: z.object({
-    file_url: z.string().url().describe("The URL of the video to publish"),
+    ...pageScopeSchema,
+    ...dryRunSchema,
+    file_url: z.string().url().optional().describe("The URL of the video to publish"),
+    file_path: z.string().min(1).optional()
+      .describe("Local path of the video to upload in resumable chunks (alternative to file_url); only files in the server's upload directory are allowed"),
     description: z.string().optional().describe("The description/caption for the video"),
     title: z.string().optional().describe("Video title"),
-  }),
+  }).refine(
+    (data) => Boolean(data.file_url) !== Boolean(data.file_path),
+    { message: "Provide exactly one of file_url or file_path" }
+  ),
 
+  /**
+   * Publish a Reel via the resumable video_reels flow
+   */
   fb_post_reel: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
     video_url: z.string().url().describe("The URL of the video for the reel"),
-    caption: z.string().optional().describe("Caption for the reel"),
+    description: z.string().optional().describe("Description/caption for the reel"),
+    caption: z.string().optional().describe("Deprecated alias for description"),
+    thumb_offset: z.number().int().min(0).optional().describe("Offset in milliseconds of the frame to use as thumbnail"),
+    scheduled_publish_time: scheduledPublishTimeSchema.optional().describe("Unix timestamp to schedule the reel instead of publishing now (10 minutes to 75 days ahead)"),
+    wait_for_processing: z.boolean().optional().default(false).describe("Wait until Facebook finishes processing the video before returning"),
   }),
 
   /**
    * Update an existing post
    */
   fb_update_post: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
     post_id: postIdSchema,
     message: messageSchema.describe("New message text"),
   }),
@@ -94,31 +240,97 @@ export const toolSchemas = {
    * Delete a post
    */
   fb_delete_post: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
     post_id: postIdSchema,
   }),
 
+  /**
+   * Revert the latest fb_update_post or fb_delete_post of a post
+   */
+  fb_undo: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
+    post_id: postIdSchema.optional().describe("Post whose latest update or delete to undo"),
+    snapshot_id: z.string().min(1).optional().describe("Specific snapshot_id returned by fb_update_post or fb_delete_post"),
+  }).refine(
+    (data) => Boolean(data.post_id) !== Boolean(data.snapshot_id),
+    { message: "Provide exactly one of post_id or snapshot_id" }
+  ),
+
   /**
    * Get page posts with pagination
    */
   fb_get_posts: z.object({
+    ...pageScopeSchema,
     ...paginationSchema,
+    ...fetchAllSchema,
     fields: z.string().optional().default("id,message,created_time").describe("Comma-separated fields to return"),
   }),
 
+  /**
+   * List scheduled (not yet published) page posts
+   */
+  fb_get_scheduled_posts: z.object({
+    ...pageScopeSchema,
+    ...paginationSchema,
+    fields: z.string().optional().default("id,message,created_time,scheduled_publish_time").describe("Comma-separated fields to return"),
+  }),
+
+  /**
+   * Move a scheduled post to a new publish time
+   */
+  fb_reschedule_post: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
+    post_id: postIdSchema,
+    scheduled_publish_time: scheduledPublishTimeSchema.describe("New Unix timestamp, 10 minutes to 75 days ahead"),
+  }),
+
+  /**
+   * Publish a scheduled or unpublished post immediately
+   */
+  fb_publish_now: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
+    post_id: postIdSchema,
+  }),
+
+  /**
+   * Cancel a scheduled post (deletes it)
+   */
+  fb_cancel_scheduled_post: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
+    post_id: postIdSchema,
+  }),
+
   /**
    * Get comments on a post
    * Consolidates: fb_get_post_comments, fb_get_number_of_comments
    */
   fb_get_comments: z.object({
+    ...pageScopeSchema,
     post_id: postIdSchema,
     ...paginationSchema,
+    ...fetchAllSchema,
     include_summary: z.boolean().optional().default(false).describe("Include total count summary"),
-  }),
+    filter: z.enum(["toplevel", "stream"]).optional().describe("toplevel: only top-level comments (default); stream: all comments flattened"),
+    order: z.enum(["chronological", "reverse_chronological"]).optional().describe("Sort order"),
+    fields: z.array(commentFieldSchema).optional().describe("Extra fields to include besides id, message, from, created_time"),
+    expand_replies: z.boolean().optional().default(false).describe("Recursively include replies as a nested 'replies' tree"),
+    max_depth: z.number().int().min(1).max(5).optional().default(2).describe("Reply levels to expand when expand_replies is true"),
+  }).refine(
+    (data) => !(data.expand_replies && data.filter === "stream"),
+    { message: "expand_replies needs top-level comments; use filter toplevel (or omit it) with expand_replies" }
+  ),
 
   /**
    * Reply to a comment
    */
   fb_reply_comment: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
     comment_id: commentIdSchema,
     message: messageSchema,
   }),
@@ -128,23 +340,63 @@ export const toolSchemas = {
    * Consolidates: fb_delete_comment, fb_delete_comment_from_post
    */
   fb_delete_comment: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
     comment_id: commentIdSchema,
   }),
 
+  /**
+   * Moderate a comment
+   * Consolidates: hide, unhide, like, unlike, edit, private reply
+   */
+  fb_moderate_comment: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
+    comment_id: commentIdSchema,
+    action: z.enum(["hide", "unhide", "like", "unlike", "edit", "private_reply"]).describe("Moderation action to apply"),
+    message: messageSchema.optional().describe("New text for 'edit', or the Messenger text for 'private_reply'"),
+  }).refine(
+    (data) => !["edit", "private_reply"].includes(data.action) || data.message,
+    { message: "message is required for edit and private_reply actions", path: ["message"] }
+  ),
+
   /**
    * Get post insights (metrics, reactions, engagement)
    * Consolidates: fb_get_post_insights, fb_get_post_impressions_unique, fb_get_post_clicks, all fb_get_post_reactions_*
    */
   fb_get_insights: z.object({
+    ...pageScopeSchema,
     post_id: postIdSchema,
     metrics: z.array(insightMetricSchema).optional().describe("Specific metrics to fetch (default: all)"),
   }),
 
+  /**
+   * Get page-level insights over a date range as a time series
+   */
+  fb_get_page_insights: z.object({
+    ...pageScopeSchema,
+    metrics: z.array(pageInsightMetricSchema).optional().describe("Metrics to fetch (default: follows, reach, engagement, video views)"),
+    period: z.enum(["day", "week", "days_28"]).optional().default("day").describe("Aggregation period of each data point"),
+    since: z.string().date().optional().describe("Start date (YYYY-MM-DD, default: 28 days before until)"),
+    until: z.string().date().optional().describe("End date (YYYY-MM-DD, default: today)"),
+  }).refine(
+    (data) => !data.since || !data.until || data.since < data.until,
+    { message: "since must be before until" }
+  ),
+
+  /**
+   * List the Pages the configured user token can manage
+   */
+  fb_list_pages: z.object({
+    refresh: z.boolean().optional().default(false).describe("Re-fetch the page list instead of using the cache"),
+  }),
+
   /**
    * Get page information (fan count, etc.)
    * Consolidates: fb_get_page_fan_count
    */
   fb_get_page_info: z.object({
+    ...pageScopeSchema,
     fields: z.string().optional().default("id,name,fan_count").describe("Comma-separated fields to return"),
   }),
 
@@ -152,8 +404,84 @@ export const toolSchemas = {
    * Send direct message to user
    */
   fb_send_message: z.object({
+    ...pageScopeSchema,
+    ...dryRunSchema,
     user_id: userIdSchema,
-    message: messageSchema,
+    message: messageSchema.optional().describe("Plain text shortcut (use content for anything richer)"),
+    content: messengerContentSchema.optional(),
+    messaging_type: z.enum(["RESPONSE", "UPDATE", "MESSAGE_TAG"]).optional().default("RESPONSE")
+      .describe("RESPONSE/UPDATE within 24h of the user's last message; MESSAGE_TAG outside it"),
+    tag: messageTagSchema.optional().describe("Required when messaging_type is MESSAGE_TAG"),
+  }).refine(
+    (data) => Boolean(data.message) !== Boolean(data.content),
+    { message: "Provide exactly one of message or content" }
+  ).refine(
+    (data) => (data.messaging_type === "MESSAGE_TAG") === Boolean(data.tag),
+    { message: "tag is required with messaging_type MESSAGE_TAG and only allowed with it", path: ["tag"] }
+  ),
+
+  /**
+   * List Messenger conversations in the Page inbox
+   */
+  fb_get_conversations: z.object({
+    ...pageScopeSchema,
+    ...paginationSchema,
+    user_id: userIdSchema.optional().describe("Only return the conversation with this user"),
+  }),
+
+  /**
+   * Read messages in a conversation
+   */
+  fb_get_messages: z.object({
+    ...pageScopeSchema,
+    conversation_id: z.string().min(1).describe("Conversation ID from fb_get_conversations"),
+    ...paginationSchema,
+  }),
+
+  /**
+   * Check the 24-hour standard messaging window before sending
+   */
+  fb_check_messaging_window: z.object({
+    ...pageScopeSchema,
+    user_id: userIdSchema,
+  }),
+
+  /**
+   * Report Graph API quota usage
+   */
+  fb_get_rate_limit_status: z.object({}),
+
+  /**
+   * Diagnose the access token: validity, expiry, scopes, reachable pages
+   */
+  fb_check_access: z.object({
+    ...pageScopeSchema,
+  }),
+
+  /**
+   * Run an action held by the approval gate
+   */
+  fb_approve_action: z.object({
+    action_token: z.string().min(1).describe("action_token returned by the gated tool call"),
+  }),
+
+  /**
+   * Discard an action held by the approval gate
+   */
+  fb_reject_action: z.object({
+    action_token: z.string().min(1).describe("action_token returned by the gated tool call"),
+    reason: z.string().optional().describe("Why the action was rejected"),
+  }),
+
+  /**
+   * Query the audit log of writes made through the tools
+   */
+  fb_get_audit_log: z.object({
+    tool: z.string().optional().describe("Only entries for this tool (e.g. fb_delete_post)"),
+    page_id: z.string().min(1).optional().describe("Only entries for this Page"),
+    outcome: z.enum(["success", "failure"]).optional(),
+    since: z.string().datetime({ offset: true }).optional().describe("Only entries at or after this ISO 8601 time"),
+    limit: z.number().int().min(1).max(500).optional().default(50).describe("Max entries, newest first"),
   }),
 
   /**
@@ -161,26 +489,122 @@ export const toolSchemas = {
    * Use for complex multi-operation workflows
    */
   fb_batch: z.object({
-    operations: z.array(batchOperationSchema).min(1).max(50).describe("Batch operations (max 50)"),
+    ...pageScopeSchema,
+    ...dryRunSchema,
+    operations: z.array(batchOperationSchema).min(1).max(MAX_BATCH_OPERATIONS)
+      .describe(`Batch operations (max ${MAX_BATCH_OPERATIONS}); lists over 50 are sent as several batches`),
     include_headers: z.boolean().optional().default(false),
+    max_retries: z.number().int().min(0).max(5).optional().default(2).describe("Times items that failed with a transient error are resent"),
+    retry_writes: z.boolean().optional().default(false)
+      .describe("Also resend writes (non-GET items, or GET items with a method= override) that failed with a transient error. Graph may have applied them anyway, so this can duplicate posts or messages"),
   }),
 };
 
 export const toolDescriptions: Record<ToolName, string> = {
-  fb_create_post: "Create a Facebook post (text, image, link, or scheduled). Supports immediate publishing or scheduling.",
-  fb_post_photo: "Publish a photo to the Facebook Page.",
-  fb_post_video: "Publish a video to the Facebook Page.",
-  fb_post_reel: "Publish a Reel to the Facebook Page.",
-  fb_update_post: "Update an existing post's message.",
-  fb_delete_post: "Delete a post from the Facebook Page.",
-  fb_get_posts: "Get page posts with pagination. Use 'after' cursor for next page.",
-  fb_get_comments: "Get comments on a post. Set include_summary=true for total count.",
+  fb_create_post: "Create a Facebook post (text, image, multiple images, link, or scheduled). Supports immediate publishing or scheduling.",
+  fb_post_photo: "Publish a photo to the Facebook Page, optionally unpublished, scheduled, place-tagged or with alt text.",
+  fb_post_video: "Publish a video to the Facebook Page from a public URL (file_url) or a local file (file_path). Local uploads resume after interruption and return progress events.",
+  fb_post_reel: "Publish a Reel to the Facebook Page. Returns the Reel id and permalink; set wait_for_processing=true to wait until it is live.",
+  fb_update_post: "Update an existing post's message. Returns a snapshot_id that fb_undo can use to restore the previous message.",
+  fb_delete_post: "Delete a post from the Facebook Page. Returns a snapshot_id that fb_undo can use to re-create it.",
+  fb_undo: "Undo the latest fb_update_post (restores the previous message) or fb_delete_post (re-creates a text, link or photo post under a new ID). Reports what could not be restored, such as reactions and comments.",
+  fb_get_posts: "Get page posts with pagination. Use 'after' cursor for next page, or fetch_all/max_items to follow cursors automatically.",
+  fb_get_scheduled_posts: "List scheduled posts that have not been published yet, with their scheduled_publish_time.",
+  fb_reschedule_post: "Change the publish time of a scheduled post (10 minutes to 75 days from now).",
+  fb_publish_now: "Publish a scheduled or unpublished post immediately.",
+  fb_cancel_scheduled_post: "Cancel a scheduled post so it is never published (deletes it).",
+  fb_get_comments: "Get comments on a post. Set include_summary=true for total count, expand_replies=true to read whole reply threads as a nested tree, fetch_all/max_items to follow cursors automatically.",
   fb_reply_comment: "Reply to a specific comment.",
   fb_delete_comment: "Delete a comment.",
+  fb_moderate_comment: "Moderate a comment: hide/unhide it, like/unlike it as the page, edit the page's own comment, or send the commenter a private Messenger reply.",
   fb_get_insights: "Get post insights (impressions, clicks, reactions). Specify metrics or get all.",
+  fb_get_page_insights: "Get page-level insights (follows, impressions, engagement, video views) for a date range. Long ranges are split automatically; returns one time series per metric.",
+  fb_list_pages: "List the Facebook Pages available to act on (id, name, category, tasks). Pass a page_id from here to any other tool.",
   fb_get_page_info: "Get page information including fan count.",
-  fb_send_message: "Send a direct message to a user via Messenger.",
-  fb_batch: "Execute multiple Graph API requests in a single call. Max 50 operations.",
+  fb_send_message: "Send a Messenger message to a user: plain text via message, or content for attachments, quick replies, button/generic templates and typing/seen actions. Use messaging_type MESSAGE_TAG with a tag outside the 24-hour window.",
+  fb_get_conversations: "List Messenger conversations in the Page inbox with participants, unread counts and last update time.",
+  fb_get_messages: "Read the messages of a Messenger conversation (newest first), including attachments.",
+  fb_check_messaging_window: "Check whether the 24-hour standard messaging window is open for a user. Call before fb_send_message; when closed, a MESSAGE_TAG is required.",
+  fb_get_rate_limit_status: "Get current Graph API quota usage (app, page and business use case, in % of the limit) and whether calls are paused. Check before bulk jobs.",
+  fb_check_access: "Diagnose the access token: validity, type, expiry, granted scopes, accessible pages with tasks, and which tools will fail for missing permissions. Call when tools return auth or permission errors.",
+  fb_approve_action: "Execute an action that returned status pending_approval. Only call after the user has approved the preview.",
+  fb_reject_action: "Discard an action that returned status pending_approval.",
+  fb_get_audit_log: "List recent writes made through these tools (tool, arguments, Graph requests, resulting ids, success or failure), newest first.",
+  fb_batch: "Execute multiple Graph API requests in one call, with depends_on and {result=name:$.path} references between operations. Returns status, headers, parsed body or error for each operation; GET operations without a method= override are retried when they fail with a transient error.",
+};
+
+/**
+ * Tools that change state on Facebook. All of them accept dry_run.
+ */
+export const writeTools: ReadonlySet<ToolName> = new Set<ToolName>([
+  "fb_create_post",
+  "fb_post_photo",
+  "fb_post_video",
+  "fb_post_reel",
+  "fb_update_post",
+  "fb_delete_post",
+  "fb_undo",
+  "fb_reschedule_post",
+  "fb_publish_now",
+  "fb_cancel_scheduled_post",
+  "fb_reply_comment",
+  "fb_delete_comment",
+  "fb_moderate_comment",
+  "fb_send_message",
+  "fb_batch",
+]);
+
+export type ApprovalToolName = "fb_approve_action" | "fb_reject_action";
+
+/**
+ * Tools that resolve actions held by the approval gate. They are left out of
+ * the model's tool list unless the host opts in (exposeApprovalTools), so the
+ * model cannot approve its own actions.
+ */
+export const approvalTools: ReadonlySet<ToolName> = new Set<ApprovalToolName>([
+  "fb_approve_action",
+  "fb_reject_action",
+]);
+
+const PUBLISH = ["pages_manage_posts", "pages_read_engagement"] as const;
+const READ_PAGE = ["pages_read_engagement"] as const;
+const READ_COMMENTS = ["pages_read_engagement", "pages_read_user_content"] as const;
+
+/**
+ * Permissions each tool needs on the Page access token.
+ * fb_batch depends on the operations it carries, so nothing is listed for it.
+ */
+export const toolPermissions: Record<ToolName, readonly string[]> = {
+  fb_create_post: PUBLISH,
+  fb_post_photo: PUBLISH,
+  fb_post_video: PUBLISH,
+  fb_post_reel: PUBLISH,
+  fb_update_post: PUBLISH,
+  fb_delete_post: PUBLISH,
+  fb_undo: PUBLISH,
+  fb_get_posts: READ_PAGE,
+  fb_get_scheduled_posts: READ_PAGE,
+  fb_reschedule_post: PUBLISH,
+  fb_publish_now: PUBLISH,
+  fb_cancel_scheduled_post: PUBLISH,
+  fb_get_comments: READ_COMMENTS,
+  fb_reply_comment: ["pages_manage_engagement", "pages_read_user_content"],
+  fb_delete_comment: ["pages_manage_engagement", "pages_read_user_content"],
+  fb_moderate_comment: ["pages_manage_engagement", "pages_read_user_content", "pages_messaging"],
+  fb_get_insights: ["read_insights", "pages_read_engagement"],
+  fb_get_page_insights: ["read_insights", "pages_read_engagement"],
+  fb_list_pages: ["pages_show_list"],
+  fb_get_page_info: READ_PAGE,
+  fb_send_message: ["pages_messaging"],
+  fb_get_conversations: ["pages_messaging"],
+  fb_get_messages: ["pages_messaging"],
+  fb_check_messaging_window: ["pages_messaging"],
+  fb_get_rate_limit_status: [],
+  fb_check_access: [],
+  fb_approve_action: [],
+  fb_reject_action: [],
+  fb_get_audit_log: [],
+  fb_batch: [],
 };
 
 export type ToolName = keyof typeof toolSchemas;
@@ -190,11 +614,26 @@ export type ToolSchemaMap = typeof toolSchemas;
 export type FbCreatePostArgs = z.infer<typeof toolSchemas.fb_create_post>;
 export type FbUpdatePostArgs = z.infer<typeof toolSchemas.fb_update_post>;
 export type FbDeletePostArgs = z.infer<typeof toolSchemas.fb_delete_post>;
+export type FbUndoArgs = z.infer<typeof toolSchemas.fb_undo>;
 export type FbGetPostsArgs = z.infer<typeof toolSchemas.fb_get_posts>;
+export type FbGetScheduledPostsArgs = z.infer<typeof toolSchemas.fb_get_scheduled_posts>;
+export type FbReschedulePostArgs = z.infer<typeof toolSchemas.fb_reschedule_post>;
+export type FbPublishNowArgs = z.infer<typeof toolSchemas.fb_publish_now>;
+export type FbCancelScheduledPostArgs = z.infer<typeof toolSchemas.fb_cancel_scheduled_post>;
 export type FbGetCommentsArgs = z.infer<typeof toolSchemas.fb_get_comments>;
 export type FbReplyCommentArgs = z.infer<typeof toolSchemas.fb_reply_comment>;
 export type FbDeleteCommentArgs = z.infer<typeof toolSchemas.fb_delete_comment>;
+export type FbModerateCommentArgs = z.infer<typeof toolSchemas.fb_moderate_comment>;
 export type FbGetInsightsArgs = z.infer<typeof toolSchemas.fb_get_insights>;
+export type FbGetPageInsightsArgs = z.infer<typeof toolSchemas.fb_get_page_insights>;
+export type FbListPagesArgs = z.infer<typeof toolSchemas.fb_list_pages>;
 export type FbGetPageInfoArgs = z.infer<typeof toolSchemas.fb_get_page_info>;
 export type FbSendMessageArgs = z.infer<typeof toolSchemas.fb_send_message>;
+export type FbGetConversationsArgs = z.infer<typeof toolSchemas.fb_get_conversations>;
+export type FbGetMessagesArgs = z.infer<typeof toolSchemas.fb_get_messages>;
+export type FbCheckMessagingWindowArgs = z.infer<typeof toolSchemas.fb_check_messaging_window>;
+export type FbCheckAccessArgs = z.infer<typeof toolSchemas.fb_check_access>;
+export type FbApproveActionArgs = z.infer<typeof toolSchemas.fb_approve_action>;
+export type FbRejectActionArgs = z.infer<typeof toolSchemas.fb_reject_action>;
+export type FbGetAuditLogArgs = z.infer<typeof toolSchemas.fb_get_audit_log>;
 export type FbBatchArgs = z.infer<typeof toolSchemas.fb_batch>;
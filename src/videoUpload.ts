@@ -0,0 +1,252 @@
+import { createReadStream } from "node:fs";
+import { mkdir, open, readFile, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { Readable } from "node:stream";
+import { fromGraphError, type GraphErrorBody } from "./errors.js";
+
+/**
+ * Video Upload Helpers
+ *
+ * Binary transfers that cannot go through GraphApiClient (which only speaks
+ * JSON/form params) are handled here with plain fetch.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Video Sources
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Where the video bytes come from:
+ * - url: publicly reachable URL that Facebook fetches itself
+ * - file: local path, streamed from disk
+ * - buffer: in-memory bytes
+ */
+export type VideoSource =
+  | { type: "url"; url: string }
+  | { type: "file"; path: string }
+  | { type: "buffer"; data: Buffer };
+
+export type BinaryVideoSource = Exclude<VideoSource, { type: "url" }>;
+
+export const getVideoSourceSize = async (source: BinaryVideoSource): Promise<number> => {
+  if (source.type === "buffer") return source.data.byteLength;
+  return (await stat(source.path)).size;
+};
+
+/**
+ * Read bytes [start, end) of a binary source as a web stream body.
+ */
+export const readVideoSourceRange = (
+  source: BinaryVideoSource,
+  start: number,
+  end: number,
+): ReadableStream<Uint8Array> | Buffer => {
+  if (source.type === "buffer") return source.data.subarray(start, end);
+  // createReadStream's `end` is inclusive
+  const stream = createReadStream(source.path, { start, end: end - 1 });
+  return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resumable (rupload) Upload
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Upload video bytes to the `upload_url` returned by a Reels `start` phase.
+ * Hosted files are passed by reference via the `file_url` header; local
+ * files and buffers are sent as the request body starting at offset 0.
+ */
+export const uploadToRupload = async (
+  uploadUrl: string,
+  accessToken: string,
+  source: VideoSource,
+): Promise<void> => {
+  const headers: Record<string, string> = { Authorization: `OAuth ${accessToken}` };
+  let body: ReadableStream<Uint8Array> | Buffer | undefined;
+
+  if (source.type === "url") {
+    headers.file_url = source.url;
+  } else {
+    const size = await getVideoSourceSize(source);
+    headers.offset = "0";
+    headers.file_size = String(size);
+    headers["Content-Type"] = "application/octet-stream";
+    body = readVideoSourceRange(source, 0, size);
+  }
+
+  const response = await fetch(uploadUrl, {
+    method: "POST",
+    headers,
+    body,
+    duplex: "half",
+  } as RequestInit);
+  const payload = (await response.json().catch(() => ({}))) as {
+    success?: boolean;
+    debug_info?: { message?: string };
+    error?: GraphErrorBody;
+  };
+
+  if (payload.error) throw fromGraphError(payload.error, response.status);
+  if (!response.ok || payload.success === false) {
+    const reason = payload.debug_info?.message ?? `HTTP ${response.status}`;
+    // Status-based mapping keeps 5xx and 429 retryable
+    throw fromGraphError({ message: `Video upload failed: ${reason}` }, response.status);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Chunked (start/transfer/finish) Upload
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * State of an in-progress chunked upload, persisted after every chunk so an
+ * interrupted upload can resume where it stopped.
+ */
+export interface UploadSession {
+  video_id: string;
+  upload_session_id: string;
+  file_size: number;
+  start_offset: number;
+  end_offset: number;
+  created_at: number;
+}
+
+export interface UploadSessionStore {
+  get(key: string): Promise<UploadSession | undefined>;
+  set(key: string, session: UploadSession): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryUploadSessionStore implements UploadSessionStore {
+  private readonly sessions = new Map<string, UploadSession>();
+
+  async get(key: string) {
+    return this.sessions.get(key);
+  }
+
+  async set(key: string, session: UploadSession) {
+    this.sessions.set(key, session);
+  }
+
+  async delete(key: string) {
+    this.sessions.delete(key);
+  }
+}
+
+/**
+ * Stores sessions in a single JSON file (default: OS temp dir).
+ */
+export class FileUploadSessionStore implements UploadSessionStore {
+  constructor(private readonly filePath = join(tmpdir(), "meta-mcp-facebook", "upload-sessions.json")) {}
+
+  async get(key: string) {
+    return (await this.readAll())[key];
+  }
+
+  async set(key: string, session: UploadSession) {
+    const sessions = await this.readAll();
+    sessions[key] = session;
+    await this.writeAll(sessions);
+  }
+
+  async delete(key: string) {
+    const sessions = await this.readAll();
+    if (!(key in sessions)) return;
+    delete sessions[key];
+    await this.writeAll(sessions);
+  }
+
+  private async readAll(): Promise<Record<string, UploadSession>> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8")) as Record<string, UploadSession>;
+    } catch {
+      return {};
+    }
+  }
+
+  private async writeAll(sessions: Record<string, UploadSession>) {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(sessions, null, 2));
+  }
+}
+
+export interface UploadProgressEvent {
+  phase: "start" | "transfer" | "finish";
+  bytes_uploaded: number;
+  total_bytes: number;
+  percent: number;
+  resumed?: boolean;
+}
+
+export const progressEvent = (
+  phase: UploadProgressEvent["phase"],
+  bytesUploaded: number,
+  totalBytes: number,
+): UploadProgressEvent => ({
+  phase,
+  bytes_uploaded: bytesUploaded,
+  total_bytes: totalBytes,
+  percent: totalBytes > 0 ? Math.round((bytesUploaded / totalBytes) * 100) : 100,
+});
+
+/**
+ * Stable key used to find a persisted session for the same local file.
+ * Buffers have no identity of their own, so callers must supply one.
+ */
+export const uploadSessionKey = async (
+  pageId: string,
+  source: BinaryVideoSource,
+  explicitKey?: string,
+): Promise<string | undefined> => {
+  if (explicitKey) return `${pageId}:${explicitKey}`;
+  if (source.type === "buffer") return undefined;
+  const path = resolve(source.path);
+  const info = await stat(path);
+  return `${pageId}:file:${path}:${info.size}:${info.mtimeMs}`;
+};
+
+const readChunk = async (source: BinaryVideoSource, start: number, end: number): Promise<Buffer> => {
+  if (source.type === "buffer") return source.data.subarray(start, end);
+  const handle = await open(source.path, "r");
+  try {
+    const chunk = Buffer.alloc(end - start);
+    const { bytesRead } = await handle.read(chunk, 0, chunk.length, start);
+    return chunk.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Send one `transfer` phase chunk as multipart form data.
+ * @returns The next offsets requested by the server
+ */
+export const transferVideoChunk = async (
+  endpointUrl: string,
+  accessToken: string,
+  source: BinaryVideoSource,
+  session: Pick<UploadSession, "upload_session_id" | "start_offset" | "end_offset">,
+): Promise<{ start_offset: number; end_offset: number }> => {
+  const chunk = await readChunk(source, session.start_offset, session.end_offset);
+  const form = new FormData();
+  form.set("access_token", accessToken);
+  form.set("upload_phase", "transfer");
+  form.set("upload_session_id", session.upload_session_id);
+  form.set("start_offset", String(session.start_offset));
+  form.set("video_file_chunk", new Blob([new Uint8Array(chunk)]), "chunk");
+
+  const response = await fetch(endpointUrl, { method: "POST", body: form });
+  const payload = (await response.json().catch(() => ({}))) as {
+    start_offset?: string;
+    end_offset?: string;
+    error?: GraphErrorBody;
+  };
+
+  if (payload.error) throw fromGraphError(payload.error, response.status);
+  if (!response.ok || payload.start_offset === undefined || payload.end_offset === undefined) {
+    throw fromGraphError({ message: `Video chunk transfer failed: HTTP ${response.status}` }, response.status);
+  }
+
+  return { start_offset: Number(payload.start_offset), end_offset: Number(payload.end_offset) };
+};
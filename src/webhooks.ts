@@ -0,0 +1,356 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+/**
+ * Facebook Webhooks Receiver
+ *
+ * Verifies subscription handshakes and payload signatures, parses Page `feed`
+ * and Messenger `messages` notifications into typed events and dispatches them
+ * to registered handlers. Mountable as a plain Node HTTP handler.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Event Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface BaseEvent {
+  page_id: string;
+  /** Unix timestamp (seconds) of the notification entry */
+  time: number;
+}
+
+interface FeedEventBase extends BaseEvent {
+  verb: "add" | "edited" | "remove" | "hide" | "unhide" | (string & {});
+  post_id?: string;
+  from?: { id: string; name?: string };
+  created_time?: number;
+  raw: Record<string, unknown>;
+}
+
+export interface PostEvent extends FeedEventBase {
+  type: "post";
+  /** Feed item kind: status, photo, video, share... */
+  item: string;
+  message?: string;
+}
+
+export interface CommentEvent extends FeedEventBase {
+  type: "comment";
+  comment_id: string;
+  /** Post ID for top-level comments, comment ID for replies */
+  parent_id?: string;
+  message?: string;
+}
+
+export interface ReactionEvent extends FeedEventBase {
+  type: "reaction";
+  reaction_type?: string;
+  comment_id?: string;
+  parent_id?: string;
+}
+
+export interface MessageEvent extends BaseEvent {
+  type: "message";
+  sender_id: string;
+  recipient_id: string;
+  timestamp: number;
+  mid: string;
+  text?: string;
+  attachments?: { type: string; payload?: { url?: string } & Record<string, unknown> }[];
+  quick_reply_payload?: string;
+  /** True when the message was sent by the Page itself */
+  is_echo: boolean;
+  raw: Record<string, unknown>;
+}
+
+export interface PostbackEvent extends BaseEvent {
+  type: "postback";
+  sender_id: string;
+  recipient_id: string;
+  timestamp: number;
+  title?: string;
+  payload?: string;
+  raw: Record<string, unknown>;
+}
+
+/** Any notification this module does not model (other fields, read receipts, ...) */
+export interface UnknownEvent extends BaseEvent {
+  type: "unknown";
+  field: string;
+  raw: unknown;
+}
+
+export type WebhookEvent = PostEvent | CommentEvent | ReactionEvent | MessageEvent | PostbackEvent | UnknownEvent;
+export type WebhookEventType = WebhookEvent["type"];
+export type WebhookHandler<T extends WebhookEvent = WebhookEvent> = (event: T) => void | Promise<void>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payload Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface WebhookPayload {
+  object?: string;
+  entry?: {
+    id: string;
+    time: number;
+    changes?: { field: string; value: Record<string, unknown> }[];
+    messaging?: Record<string, unknown>[];
+  }[];
+}
+
+const str = (value: unknown) => (typeof value === "string" ? value : undefined);
+const num = (value: unknown) => (typeof value === "number" ? value : undefined);
+
+const parseFeedChange = (base: BaseEvent, value: Record<string, unknown>): WebhookEvent => {
+  const common = {
+    ...base,
+    verb: str(value.verb) ?? "add",
+    post_id: str(value.post_id),
+    from: value.from as FeedEventBase["from"],
+    created_time: num(value.created_time),
+    raw: value,
+  };
+
+  switch (value.item) {
+    case "comment":
+      return {
+        ...common,
+        type: "comment",
+        comment_id: str(value.comment_id) ?? "",
+        parent_id: str(value.parent_id),
+        message: str(value.message),
+      };
+    case "reaction":
+      return {
+        ...common,
+        type: "reaction",
+        reaction_type: str(value.reaction_type),
+        comment_id: str(value.comment_id),
+        parent_id: str(value.parent_id),
+      };
+    default:
+      return { ...common, type: "post", item: str(value.item) ?? "status", message: str(value.message) };
+  }
+};
+
+const parseMessaging = (base: BaseEvent, messaging: Record<string, unknown>): WebhookEvent => {
+  const sender = (messaging.sender as { id?: string } | undefined)?.id ?? "";
+  const recipient = (messaging.recipient as { id?: string } | undefined)?.id ?? "";
+  const timestamp = num(messaging.timestamp) ?? base.time * 1000;
+
+  const message = messaging.message as Record<string, unknown> | undefined;
+  if (message) {
+    return {
+      ...base,
+      type: "message",
+      sender_id: sender,
+      recipient_id: recipient,
+      timestamp,
+      mid: str(message.mid) ?? "",
+      text: str(message.text),
+      attachments: message.attachments as MessageEvent["attachments"],
+      quick_reply_payload: (message.quick_reply as { payload?: string } | undefined)?.payload,
+      is_echo: message.is_echo === true,
+      raw: messaging,
+    };
+  }
+
+  const postback = messaging.postback as { title?: string; payload?: string } | undefined;
+  if (postback) {
+    return {
+      ...base,
+      type: "postback",
+      sender_id: sender,
+      recipient_id: recipient,
+      timestamp,
+      title: postback.title,
+      payload: postback.payload,
+      raw: messaging,
+    };
+  }
+
+  return { ...base, type: "unknown", field: "messaging", raw: messaging };
+};
+
+/**
+ * Parse a webhook notification body into typed events.
+ */
+export const parseWebhookPayload = (payload: unknown): WebhookEvent[] => {
+  const { entry = [] } = (payload ?? {}) as WebhookPayload;
+
+  return entry.flatMap((item) => {
+    const base: BaseEvent = { page_id: item.id, time: item.time };
+    const changes = (item.changes ?? []).map((change) =>
+      change.field === "feed"
+        ? parseFeedChange(base, change.value)
+        : ({ ...base, type: "unknown", field: change.field, raw: change.value } as const)
+    );
+    const messages = (item.messaging ?? []).map((messaging) => parseMessaging(base, messaging));
+    return [...changes, ...messages];
+  });
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Signatures
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Compute the `X-Hub-Signature-256` header value for a body.
+ * Useful for replaying recorded payloads against a local receiver.
+ */
+export const signWebhookPayload = (appSecret: string, rawBody: string | Buffer): string =>
+  `sha256=${createHmac("sha256", appSecret).update(rawBody).digest("hex")}`;
+
+export const verifyWebhookSignature = (
+  appSecret: string,
+  rawBody: string | Buffer,
+  signatureHeader: string | undefined,
+): boolean => {
+  if (!signatureHeader?.startsWith("sha256=")) return false;
+  const expected = Buffer.from(signWebhookPayload(appSecret, rawBody));
+  const received = Buffer.from(signatureHeader);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Receiver
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface WebhookReceiverOptions {
+  /** App secret used to validate X-Hub-Signature-256 */
+  appSecret: string;
+  /** Token configured in the App Dashboard for the subscription handshake */
+  verifyToken: string;
+  /** Called when a handler throws; the notification is still acknowledged. Defaults to logging the error */
+  onError?: (error: unknown, event: WebhookEvent) => void;
+  /** Largest POST body createNodeHandler accepts before replying 413 (default: 1 MiB) */
+  maxBodyBytes?: number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+const logHandlerError = (error: unknown, event: WebhookEvent) => {
+  console.error(`[meta-mcp] Webhook handler failed for ${event.type} event:`, error);
+};
+
+export class WebhookSignatureError extends Error {
+  constructor() {
+    super("Invalid X-Hub-Signature-256");
+    this.name = "WebhookSignatureError";
+  }
+}
+
+export class WebhookReceiver {
+  private readonly options: WebhookReceiverOptions;
+  private readonly handlers = new Map<WebhookEventType | "*", WebhookHandler[]>();
+
+  constructor(options: WebhookReceiverOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Register a handler for one event type, or "*" for every event.
+   */
+  on<T extends WebhookEventType>(type: T | "*", handler: WebhookHandler<Extract<WebhookEvent, { type: T }>>): this {
+    const list = this.handlers.get(type) ?? [];
+    list.push(handler as WebhookHandler);
+    this.handlers.set(type, list);
+    return this;
+  }
+
+  /**
+   * Answer the `hub.challenge` handshake.
+   * @returns The challenge to echo back, or undefined if the request is not valid
+   */
+  verifyChallenge(query: URLSearchParams): string | undefined {
+    const valid = query.get("hub.mode") === "subscribe" && query.get("hub.verify_token") === this.options.verifyToken;
+    return valid ? query.get("hub.challenge") ?? undefined : undefined;
+  }
+
+  /**
+   * Verify, parse and dispatch one notification body.
+   * @throws WebhookSignatureError if the signature does not match
+   */
+  async handle(rawBody: string | Buffer, signatureHeader: string | undefined): Promise<WebhookEvent[]> {
+    const events = this.verify(rawBody, signatureHeader);
+    await this.dispatch(events);
+    return events;
+  }
+
+  /**
+   * Verify and parse one notification body without dispatching it.
+   * @throws WebhookSignatureError if the signature does not match
+   */
+  verify(rawBody: string | Buffer, signatureHeader: string | undefined): WebhookEvent[] {
+    if (!verifyWebhookSignature(this.options.appSecret, rawBody, signatureHeader)) {
+      throw new WebhookSignatureError();
+    }
+    return parseWebhookPayload(JSON.parse(rawBody.toString()));
+  }
+
+  async dispatch(events: WebhookEvent[]): Promise<void> {
+    for (const event of events) {
+      const handlers = [...(this.handlers.get(event.type) ?? []), ...(this.handlers.get("*") ?? [])];
+      for (const handler of handlers) {
+        try {
+          await handler(event);
+        } catch (error) {
+          (this.options.onError ?? logHandlerError)(error, event);
+        }
+      }
+    }
+  }
+
+  /**
+   * Node `http` request listener: GET answers the handshake, POST receives notifications.
+   * Bodies over maxBodyBytes get 413. A verified notification is acknowledged
+   * before its handlers run, so slow handlers cannot push Meta past its timeout.
+   */
+  createNodeHandler(): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+
+      if (req.method === "GET") {
+        const challenge = this.verifyChallenge(url.searchParams);
+        res.writeHead(challenge ? 200 : 403, { "Content-Type": "text/plain" }).end(challenge ?? "Forbidden");
+        return;
+      }
+
+      if (req.method !== "POST") {
+        res.writeHead(405).end();
+        return;
+      }
+
+      const maxBodyBytes = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+      if (Number(req.headers["content-length"] ?? 0) > maxBodyBytes) {
+        res.writeHead(413, { Connection: "close" }).end();
+        req.resume();
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > maxBodyBytes) {
+          res.writeHead(413, { Connection: "close" }).end();
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk as Buffer);
+      }
+      const signature = req.headers["x-hub-signature-256"];
+
+      let events: WebhookEvent[];
+      try {
+        events = this.verify(Buffer.concat(chunks), Array.isArray(signature) ? signature[0] : signature);
+      } catch (error) {
+        res.writeHead(error instanceof WebhookSignatureError ? 403 : 400).end();
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "text/plain" }).end("EVENT_RECEIVED");
+      this.dispatch(events).catch((error) => console.error("[meta-mcp] Webhook dispatch failed:", error));
+    };
+  }
+}